@@ -0,0 +1,147 @@
+import type {Page} from './third_party/index.js';
+import type {
+  ConsoleEntry,
+  ConsoleLevel,
+  ConsoleMessagesOptions,
+  ReactWarning,
+} from './tools/ToolDefinition.js';
+
+const MAX_CONSOLE_MESSAGES = 1000;
+
+// Puppeteer console types that are not plain logs.
+const LEVELS: Record<string, ConsoleLevel> = {
+  error: 'error',
+  assert: 'error',
+  warn: 'warn',
+  warning: 'warn',
+  info: 'info',
+  debug: 'debug',
+  verbose: 'debug',
+};
+
+/** Applies console format specifiers (`%s`, `%o`, ...) like DevTools does. */
+function formatConsoleArgs(args: unknown[]): string {
+  const [first, ...rest] = args;
+  if (typeof first !== 'string') {
+    return args.map(formatConsoleValue).join(' ');
+  }
+  const remaining = [...rest];
+  const text = first.replace(/%([sdifoOc%])/g, (match, specifier: string) => {
+    if (specifier === '%') return '%';
+    if (remaining.length === 0) return match;
+    const value = remaining.shift();
+    return specifier === 'c' ? '' : formatConsoleValue(value);
+  });
+  return [text, ...remaining.map(formatConsoleValue)].join(' ');
+}
+
+function formatConsoleValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+const COMPONENT_STACK_FRAME = /^\s*at (?:new )?([A-Z][\w$.]*)(?: \(|$)/gm;
+const RENDER_METHOD_OF = /Check the render method of `([^`]+)`/g;
+// React 19 hydration diffs print the tree as `<App>`, `+  <div>`, `-  <span>`.
+const HYDRATION_DIFF_NODE = /^[ +-]*<([A-Z][\w$.]*)[\s>]/gm;
+
+/**
+ * Recognizes React development warnings and collects the component names
+ * they mention, innermost first.
+ */
+function parseReactWarning(text: string): ReactWarning | undefined {
+  let kind: ReactWarning['kind'] | undefined;
+  if (/unique "key" prop/.test(text)) {
+    kind = 'key';
+  } else if (/not wrapped in act\(|act\(\.\.\.\)/.test(text)) {
+    kind = 'act';
+  } else if (/hydrat|did not match\. Server:|Expected server HTML to contain/i.test(text)) {
+    kind = 'hydration';
+  } else if (/^Warning: /.test(text) || /react\.dev\/link|reactjs\.org\/link/.test(text)) {
+    kind = 'other';
+  }
+  if (!kind) {
+    return undefined;
+  }
+
+  const components = new Set<string>();
+  for (const pattern of [RENDER_METHOD_OF, COMPONENT_STACK_FRAME, HYDRATION_DIFF_NODE]) {
+    for (const match of text.matchAll(pattern)) {
+      components.add(match[1]);
+    }
+  }
+  return {kind, components: [...components]};
+}
+
+/**
+ * Buffers the console messages and uncaught exceptions of one page, keeping
+ * the most recent `MAX_CONSOLE_MESSAGES`. Messages survive navigations.
+ */
+export class ConsoleCollector {
+  #messages: ConsoleEntry[] = [];
+  #nextId = 1;
+
+  constructor(page: Page) {
+    page.on('console', message => {
+      const args = message.args().map(arg => {
+        const remote = arg.remoteObject();
+        return 'value' in remote ? remote.value : (remote.description ?? remote.type);
+      });
+      const location = message.location();
+      this.#push({
+        level: LEVELS[message.type()] ?? 'log',
+        type: message.type(),
+        text: args.length > 0 ? formatConsoleArgs(args) : message.text(),
+        ...(location.url && {
+          location: {
+            url: location.url,
+            lineNumber: location.lineNumber !== undefined ? location.lineNumber + 1 : undefined,
+            columnNumber:
+              location.columnNumber !== undefined ? location.columnNumber + 1 : undefined,
+          },
+        }),
+      });
+    });
+    page.on('pageerror', error => {
+      this.#push({
+        level: 'error',
+        type: 'pageerror',
+        text: error instanceof Error ? (error.stack ?? `${error.name}: ${error.message}`) : String(error),
+      });
+    });
+  }
+
+  #push(entry: Omit<ConsoleEntry, 'id' | 'timestamp' | 'react'>) {
+    const react = parseReactWarning(entry.text);
+    this.#messages.push({
+      id: this.#nextId++,
+      timestamp: Date.now(),
+      ...entry,
+      ...(react && {react}),
+    });
+    if (this.#messages.length > MAX_CONSOLE_MESSAGES) {
+      this.#messages.splice(0, this.#messages.length - MAX_CONSOLE_MESSAGES);
+    }
+  }
+
+  /** Most recent matching messages, oldest first. */
+  list(options: ConsoleMessagesOptions = {}): {messages: ConsoleEntry[]; total: number} {
+    const levels = options.levels?.length ? new Set(options.levels) : null;
+    const matching = this.#messages.filter(
+      message =>
+        (!levels || levels.has(message.level)) &&
+        (!options.reactOnly || message.react) &&
+        (!options.component || message.react?.components.includes(options.component)),
+    );
+    if (options.clear) {
+      this.#messages = [];
+    }
+    const limit = options.limit ?? 50;
+    return {messages: matching.slice(-limit), total: matching.length};
+  }
+}
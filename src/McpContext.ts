@@ -1,27 +1,116 @@
 import type {Browser, Page} from './third_party/index.js';
+import {ConsoleCollector} from './ConsoleCollector.js';
 import {logger} from './logger.js';
+import {NetworkCollector} from './NetworkCollector.js';
 import {ReactSession} from './ReactSession.js';
-import type {ReactAttachResult, ReactRootInfo} from './tools/ToolDefinition.js';
+import {diffComponentMaps, diffSnapshots} from './snapshotDiff.js';
+import {launchEditor, readSourceSnippet} from './sourceFiles.js';
+import type {
+  BoundaryOverrideKind,
+  BoundaryOverrideResult,
+  ComponentContexts,
+  ComponentDetails,
+  ComponentEdit,
+  ComponentEditResult,
+  ComponentMap,
+  ComponentMapOptions,
+  ComponentSourceResult,
+  ComponentNode,
+  ComponentTarget,
+  ConsoleEntry,
+  ConsoleMessagesOptions,
+  ContextProviderInfo,
+  ElementTarget,
+  HighlightResult,
+  HydrationReport,
+  InteractionAction,
+  InteractionResult,
+  ListComponentsOptions,
+  NetworkRequestDetails,
+  NetworkRequestEntry,
+  NetworkRequestsOptions,
+  ProfilingSession,
+  ReactAttachResult,
+  ReactErrorEntry,
+  ReactRootInfo,
+  RenderExplanation,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotDiffKind,
+  SnapshotNode,
+  SuspenseBoundaryInfo,
+  WaitCondition,
+  WaitResult,
+} from './tools/ToolDefinition.js';
 
 const CLOSE_PAGE_ERROR = 'Cannot close the last open page';
+// Snapshots and component maps kept per page for diff_snapshot.
+const MAX_STORED_SNAPSHOTS = 10;
+
+interface SnapshotRecord {
+  id: string;
+  /** uid -> backend DOM node id. */
+  nodes: Map<string, number>;
+  /** The page loaded a new document since, so its node ids are gone. */
+  stale: boolean;
+}
+
+interface StoredSnapshot {
+  snapshot: Snapshot;
+  verbose: boolean;
+  /** Documents the page loaded before this snapshot was taken. */
+  document: number;
+}
+
+interface StoredComponentMap {
+  id: string;
+  map: ComponentMap;
+  options?: ComponentMapOptions;
+}
+
+export interface McpContextOptions {
+  /** Local build directory to read source maps from before fetching them. */
+  sourceMapDir?: string;
+  /** Directory source files may be read from. Without it, no files are read. */
+  projectRoot?: string;
+}
 
 export class McpContext {
   #browser: Browser;
   #pages: Page[] = [];
   #selectedPage?: Page;
   #reactSessions = new WeakMap<Page, ReactSession>();
+  #consoleCollectors = new WeakMap<Page, ConsoleCollector>();
+  #networkCollectors = new WeakMap<Page, NetworkCollector>();
+  #snapshots = new WeakMap<Page, SnapshotRecord>();
+  #nextSnapshotId = 1;
+  #snapshotHistory = new WeakMap<Page, StoredSnapshot[]>();
+  #documents = new WeakMap<Page, number>();
+  #componentMaps = new WeakMap<Page, StoredComponentMap[]>();
+  #nextComponentMapId = 1;
+  #options: McpContextOptions;
 
-  private constructor(browser: Browser) {
+  private constructor(browser: Browser, options: McpContextOptions) {
     this.#browser = browser;
+    this.#options = options;
   }
 
-  static async from(browser: Browser) {
-    const ctx = new McpContext(browser);
+  static async from(browser: Browser, options: McpContextOptions = {}) {
+    const ctx = new McpContext(browser, options);
     await ctx.#init();
     return ctx;
   }
 
   async #init() {
+    // Collect console output and requests from the moment a page opens, not
+    // from the first snapshot that happens to include it.
+    this.#browser.on('targetcreated', async target => {
+      const page = await target.page().catch(() => null);
+      if (page) {
+        this.#collectConsole(page);
+        this.#collectNetwork(page);
+      }
+    });
     await this.createPagesSnapshot();
     const targetUrl = process.env.TARGET_URL;
     if (targetUrl) {
@@ -41,6 +130,10 @@ export class McpContext {
     this.#pages = allPages.filter(page => {
       return !page.url().startsWith('devtools://');
     });
+    for (const page of this.#pages) {
+      this.#collectConsole(page);
+      this.#collectNetwork(page);
+    }
 
     if (!this.#selectedPage || this.#pages.indexOf(this.#selectedPage) === -1) {
       if (this.#pages.length > 0) {
@@ -49,6 +142,8 @@ export class McpContext {
         this.selectPage(nonBlankPage || this.#pages[0]);
       } else {
         const newPage = await this.#browser.newPage();
+        this.#collectConsole(newPage);
+        this.#collectNetwork(newPage);
         this.#pages.push(newPage);
         this.selectPage(newPage);
       }
@@ -98,10 +193,56 @@ export class McpContext {
     return page;
   }
 
+  #collectConsole(page: Page): ConsoleCollector {
+    let collector = this.#consoleCollectors.get(page);
+    if (!collector) {
+      collector = new ConsoleCollector(page);
+      this.#consoleCollectors.set(page, collector);
+    }
+    return collector;
+  }
+
+  #collectNetwork(page: Page): NetworkCollector {
+    let collector = this.#networkCollectors.get(page);
+    if (!collector) {
+      collector = new NetworkCollector(page);
+      this.#networkCollectors.set(page, collector);
+    }
+    return collector;
+  }
+
+  /** Replaces a snapshot uid in `target` with the backend node id it stands for. */
+  #resolveTarget<T extends ComponentTarget>(page: Page, target: T): T {
+    if (!target.uid) {
+      return target;
+    }
+    const {uid, ...rest} = target;
+    const snapshot = this.#snapshots.get(page);
+    if (!snapshot) {
+      throw new Error(`No snapshot was taken on this page, so uid ${uid} is unknown. Call take_snapshot first.`);
+    }
+    const snapshotId = uid.slice(0, uid.lastIndexOf('_'));
+    if (snapshotId !== snapshot.id) {
+      throw new Error(
+        `uid ${uid} is from an older snapshot (${snapshotId}); the latest snapshot of this page is ${snapshot.id}. Use a uid from the latest take_snapshot.`,
+      );
+    }
+    if (snapshot.stale) {
+      throw new Error(
+        `uid ${uid} is from snapshot ${snapshot.id}, taken before the page loaded a new document. Call take_snapshot again.`,
+      );
+    }
+    const backendDOMNodeId = snapshot.nodes.get(uid);
+    if (backendDOMNodeId === undefined) {
+      throw new Error(`Snapshot ${snapshot.id} has no DOM element with uid ${uid}.`);
+    }
+    return {...rest, backendDOMNodeId} as T;
+  }
+
   #getReactSession(page: Page): ReactSession {
     let session = this.#reactSessions.get(page);
     if (!session) {
-      session = new ReactSession(page);
+      session = new ReactSession(page, {sourceMapDir: this.#options.sourceMapDir});
       this.#reactSessions.set(page, session);
     }
     return session;
@@ -119,36 +260,352 @@ export class McpContext {
     return this.#getReactSession(page).listRoots();
   }
 
-  async listComponents(_: {
-    rendererId?: number;
-    rootIndex?: number;
-    depth?: number;
-    maxNodes?: number;
-    nameFilter?: string;
-  }) {
-    // Placeholder until full bridge is implemented.
-    return [];
+  async listComponents(options: ListComponentsOptions): Promise<ComponentNode[]> {
+    const page = this.getSelectedPage();
+    logger('listComponents on selected page');
+    return this.#getReactSession(page).listComponents(options);
+  }
+
+  async getComponentById(id: string): Promise<ComponentDetails | null> {
+    const page = this.getSelectedPage();
+    logger('getComponentById on selected page');
+    return this.#getReactSession(page).getComponentById(id);
+  }
+
+  async resolveComponentId(target: ComponentTarget): Promise<string> {
+    const page = this.getSelectedPage();
+    logger('resolveComponentId on selected page');
+    return this.#getReactSession(page).resolveComponentId(this.#resolveTarget(page, target));
+  }
+
+  async getComponentByBackendNodeId(
+    target: Pick<ComponentTarget, 'backendDOMNodeId' | 'uid'>,
+  ): Promise<ComponentDetails> {
+    const page = this.getSelectedPage();
+    logger('getComponentByBackendNodeId on selected page');
+    const {backendDOMNodeId} = this.#resolveTarget(page, target);
+    if (backendDOMNodeId === undefined) {
+      throw new Error('A backendDOMNodeId or uid from take_snapshot is required.');
+    }
+    return this.#getReactSession(page).getComponentByBackendNodeId(backendDOMNodeId);
+  }
+
+  async editComponent(
+    target: ComponentTarget,
+    edit: ComponentEdit,
+  ): Promise<ComponentEditResult> {
+    const page = this.getSelectedPage();
+    logger('editComponent on selected page');
+    return this.#getReactSession(page).editComponent(this.#resolveTarget(page, target), edit);
+  }
+
+  async explainRender(target: ComponentTarget): Promise<RenderExplanation> {
+    const page = this.getSelectedPage();
+    logger('explainRender on selected page');
+    return this.#getReactSession(page).explainRender(this.#resolveTarget(page, target));
+  }
+
+  async listContextProviders(target?: ComponentTarget): Promise<ContextProviderInfo[]> {
+    const page = this.getSelectedPage();
+    logger('listContextProviders on selected page');
+    return this.#getReactSession(page).listContextProviders(
+      target && this.#resolveTarget(page, target),
+    );
+  }
+
+  async getComponentContexts(target: ComponentTarget): Promise<ComponentContexts> {
+    const page = this.getSelectedPage();
+    logger('getComponentContexts on selected page');
+    return this.#getReactSession(page).getComponentContexts(this.#resolveTarget(page, target));
+  }
+
+  async listSuspenseBoundaries(includeResolved = false): Promise<SuspenseBoundaryInfo[]> {
+    const page = this.getSelectedPage();
+    logger('listSuspenseBoundaries on selected page');
+    return this.#getReactSession(page).listSuspenseBoundaries(includeResolved);
+  }
+
+  async overrideBoundary(
+    target: ComponentTarget,
+    kind: BoundaryOverrideKind,
+    force: boolean,
+  ): Promise<BoundaryOverrideResult> {
+    const page = this.getSelectedPage();
+    logger('overrideBoundary on selected page');
+    return this.#getReactSession(page).overrideBoundary(
+      this.#resolveTarget(page, target),
+      kind,
+      force,
+    );
+  }
+
+  async getReactErrors(options?: {clear?: boolean}): Promise<ReactErrorEntry[]> {
+    const page = this.getSelectedPage();
+    logger('getReactErrors on selected page');
+    return this.#getReactSession(page).getReactErrors(options);
+  }
+
+  async detectHydrationMismatches(
+    url: string,
+    options: {timeout?: number; settleMs?: number; maxMismatches?: number},
+  ): Promise<HydrationReport> {
+    const page = this.getSelectedPage();
+    logger('detectHydrationMismatches on selected page');
+    const startedAt = Date.now();
+    const result = await this.#getReactSession(page).detectHydrationMismatches(url, options);
+    const {messages} = this.#collectConsole(page).list({reactOnly: true, limit: Infinity});
+    return {
+      ...result,
+      warnings: messages.filter(
+        message => message.react?.kind === 'hydration' && message.timestamp >= startedAt,
+      ),
+    };
+  }
+
+  async listConsoleMessages(
+    options: ConsoleMessagesOptions,
+  ): Promise<{messages: ConsoleEntry[]; total: number}> {
+    const page = this.getSelectedPage();
+    logger('listConsoleMessages on selected page');
+    return this.#collectConsole(page).list(options);
+  }
+
+  async listNetworkRequests(
+    options: NetworkRequestsOptions,
+  ): Promise<{requests: NetworkRequestEntry[]; total: number}> {
+    const page = this.getSelectedPage();
+    logger('listNetworkRequests on selected page');
+    const collector = this.#collectNetwork(page);
+    collector.attribute(await this.#getReactSession(page).takeNetworkInitiators());
+    return collector.list(options);
+  }
+
+  async getNetworkRequest(id: number, includeBodies: boolean): Promise<NetworkRequestDetails> {
+    const page = this.getSelectedPage();
+    logger('getNetworkRequest on selected page');
+    const collector = this.#collectNetwork(page);
+    collector.attribute(await this.#getReactSession(page).takeNetworkInitiators());
+    return collector.get(id, includeBodies);
+  }
+
+  async interact(
+    target: ElementTarget | undefined,
+    action: InteractionAction,
+    options: {timeout?: number},
+  ): Promise<InteractionResult> {
+    const page = this.getSelectedPage();
+    logger(`interact (${action.type}) on selected page`);
+    return this.#getReactSession(page).interact(
+      target && this.#resolveTarget(page, target),
+      action,
+      options,
+    );
+  }
+
+  async waitFor(condition: WaitCondition, options: {timeout?: number}): Promise<WaitResult> {
+    const page = this.getSelectedPage();
+    logger(`waitFor (${condition.kind}) on selected page`);
+    return this.#getReactSession(page).waitFor(condition, options);
+  }
+
+  async getComponentSource(
+    target: ComponentTarget,
+    options: {contextLines: number; openInEditor?: boolean},
+  ): Promise<ComponentSourceResult> {
+    const page = this.getSelectedPage();
+    logger('getComponentSource on selected page');
+    const session = this.#getReactSession(page);
+    const id = await session.resolveComponentId(this.#resolveTarget(page, target));
+    const component = await session.getComponentById(id);
+    if (!component) {
+      throw new Error(`Component ${id} not found. It may have unmounted.`);
+    }
+    if (!component.source?.fileName) {
+      throw new Error(
+        `${component.name} has no source location. See "Source Location Tracking" in the README.`,
+      );
+    }
+    // Paths come from the page, so files are only read from a root the
+    // user configured explicitly.
+    const {projectRoot} = this.#options;
+    if (!projectRoot) {
+      if (options.openInEditor) {
+        throw new Error('Opening files in the editor requires starting the server with --projectRoot.');
+      }
+      return {component};
+    }
+    const snippet = await readSourceSnippet(projectRoot, component.source, options.contextLines);
+    return {
+      component,
+      snippet,
+      ...(options.openInEditor && {editorCommand: launchEditor(snippet)}),
+    };
   }
 
-  async getComponentById(_id: string) {
-    // Placeholder until full bridge is implemented.
-    return null;
+  async startProfiling(): Promise<void> {
+    const page = this.getSelectedPage();
+    logger('startProfiling on selected page');
+    return this.#getReactSession(page).startProfiling();
+  }
+
+  async stopProfiling(): Promise<ProfilingSession> {
+    const page = this.getSelectedPage();
+    logger('stopProfiling on selected page');
+    return this.#getReactSession(page).stopProfiling();
   }
 
-  async highlightComponent(_id: string) {
-    // Placeholder until full bridge is implemented.
-    return {ok: false, message: 'Highlight not implemented yet'};
+  async highlightComponent(
+    id: string,
+    options?: {durationMs?: number; screenshot?: boolean},
+  ): Promise<HighlightResult> {
+    const page = this.getSelectedPage();
+    logger('highlightComponent on selected page');
+    return this.#getReactSession(page).highlightComponent(id, options);
   }
 
-  async takeSnapshot(verbose = false) {
+  /**
+   * Takes a snapshot and makes it the page's latest, whose uids tools accept
+   * as targets until the next snapshot or until the page loads a new document.
+   */
+  async takeSnapshot(verbose = false): Promise<Snapshot | null> {
     const page = this.getSelectedPage();
     logger('takeSnapshot on selected page');
-    return this.#getReactSession(page).takeSnapshot(verbose);
+    const snapshot = await this.#getReactSession(page).takeSnapshot(
+      verbose,
+      String(this.#nextSnapshotId++),
+    );
+    if (!snapshot) {
+      return null;
+    }
+    const nodes = new Map<string, number>();
+    const collect = (node: SnapshotNode) => {
+      if (node.uid && node.backendDOMNodeId !== undefined) {
+        nodes.set(node.uid, node.backendDOMNodeId);
+      }
+      node.children?.forEach(collect);
+    };
+    collect(snapshot.root);
+    if (!this.#snapshots.has(page)) {
+      page.on('domcontentloaded', () => {
+        this.#documents.set(page, (this.#documents.get(page) ?? 0) + 1);
+        const latest = this.#snapshots.get(page);
+        if (latest) {
+          latest.stale = true;
+        }
+      });
+    }
+    this.#snapshots.set(page, {id: snapshot.snapshotId, nodes, stale: false});
+    const history = this.#snapshotHistory.get(page) ?? [];
+    history.push({snapshot, verbose, document: this.#documents.get(page) ?? 0});
+    this.#snapshotHistory.set(page, history.slice(-MAX_STORED_SNAPSHOTS));
+    return snapshot;
   }
 
-  async getComponentMap(verbose = true, includeState = false) {
+  async getComponentMap(
+    options?: ComponentMapOptions,
+  ): Promise<{output: string; mapId?: string} | null> {
     const page = this.getSelectedPage();
     logger('getComponentMap on selected page');
-    return this.#getReactSession(page).getComponentMap(verbose, includeState);
+    const result = await this.#getReactSession(page).getComponentMap(
+      options?.root ? {...options, root: this.#resolveTarget(page, options.root)} : options,
+    );
+    if (!result?.map) {
+      return result;
+    }
+    const id = String(this.#nextComponentMapId++);
+    const maps = this.#componentMaps.get(page) ?? [];
+    // Kept as given, so a uid root is checked against the snapshots again.
+    maps.push({id, map: result.map, options});
+    this.#componentMaps.set(page, maps.slice(-MAX_STORED_SNAPSHOTS));
+    // The text format prints the id as a header; JSON carries it inline.
+    const output =
+      options?.format === 'json'
+        ? JSON.stringify({mapId: id, ...JSON.parse(result.output)}, null, 2)
+        : result.output;
+    return {output, mapId: id};
+  }
+
+  /**
+   * Compares two snapshots or component maps kept for the selected page.
+   * Without `to`, a new one is taken with the options of `from` and becomes
+   * the latest.
+   */
+  async diffSnapshot(options: {
+    kind: SnapshotDiffKind;
+    from?: string;
+    to?: string;
+  }): Promise<SnapshotDiff> {
+    const page = this.getSelectedPage();
+    logger('diffSnapshot on selected page');
+    if (options.kind === 'accessibility') {
+      const history = this.#snapshotHistory.get(page) ?? [];
+      const from = this.#findStored(history, entry => entry.snapshot.snapshotId, options.from, 'snapshot', 'take_snapshot');
+      let to: StoredSnapshot;
+      if (options.to) {
+        to = this.#findStored(history, entry => entry.snapshot.snapshotId, options.to, 'snapshot', 'take_snapshot');
+      } else {
+        if (!(await this.takeSnapshot(from.verbose))) {
+          throw new Error('Could not take a new snapshot of the page.');
+        }
+        to = this.#snapshotHistory.get(page)!.at(-1)!;
+      }
+      // DOM node ids do not survive a new document, so match by role and name.
+      const strip = (node: SnapshotNode): SnapshotNode => ({
+        ...node,
+        backendDOMNodeId: undefined,
+        children: node.children?.map(strip),
+      });
+      return from.document === to.document
+        ? diffSnapshots(from.snapshot, to.snapshot)
+        : diffSnapshots(
+            {...from.snapshot, root: strip(from.snapshot.root)},
+            {...to.snapshot, root: strip(to.snapshot.root)},
+          );
+    }
+
+    const maps = this.#componentMaps.get(page) ?? [];
+    const from = this.#findStored(maps, entry => entry.id, options.from, 'component map', 'get_component_map');
+    let to: StoredComponentMap;
+    if (options.to) {
+      to = this.#findStored(maps, entry => entry.id, options.to, 'component map', 'get_component_map');
+    } else {
+      const root = from.options?.root;
+      const result = await this.getComponentMap(from.options).catch((error: Error) => {
+        if (root?.uid || root?.backendDOMNodeId !== undefined || root?.id) {
+          throw new Error(
+            `Component map ${from.id} was scoped to an element or component that no longer resolves (${error.message}). Build the new map with get_component_map and pass its id as "to".`,
+          );
+        }
+        throw error;
+      });
+      if (!result?.mapId) {
+        throw new Error(`Could not build a new component map: ${result?.output ?? 'no output'}`);
+      }
+      to = this.#componentMaps.get(page)!.at(-1)!;
+    }
+    return diffComponentMaps(from, to);
+  }
+
+  /** Finds a stored snapshot or component map by id, or the latest one. */
+  #findStored<T>(
+    entries: T[],
+    getId: (entry: T) => string,
+    id: string | undefined,
+    label: string,
+    tool: string,
+  ): T {
+    if (entries.length === 0) {
+      throw new Error(`No ${label} was taken on this page yet. Call ${tool} first.`);
+    }
+    if (id === undefined) {
+      return entries.at(-1)!;
+    }
+    const entry = entries.find(candidate => getId(candidate) === id);
+    if (!entry) {
+      throw new Error(
+        `No ${label} ${id} is kept for this page. Kept: ${entries.map(getId).join(', ')}.`,
+      );
+    }
+    return entry;
   }
 }
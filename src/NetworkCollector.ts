@@ -0,0 +1,241 @@
+import type {NetworkInitiator} from './pageAgent.js';
+import type {HTTPRequest, Page} from './third_party/index.js';
+import type {
+  NetworkRequestDetails,
+  NetworkRequestEntry,
+  NetworkRequestsOptions,
+} from './tools/ToolDefinition.js';
+
+const MAX_NETWORK_REQUESTS = 1000;
+const MAX_BODY_LENGTH = 10_000;
+
+// Types whose bodies are worth returning as text.
+const TEXT_MIME_TYPE = /^text\/|json|javascript|xml|x-www-form-urlencoded|graphql/;
+
+interface RequestRecord {
+  entry: NetworkRequestEntry;
+  request: HTTPRequest;
+  /** Navigation count when the request was sent. */
+  document: number;
+  /** Claimed by a page-side fetch or XHR call. */
+  matched: boolean;
+  /** CDP id, known once `Network.requestWillBeSent` was paired with it. */
+  requestId?: string;
+}
+
+type StackFrame = {functionName: string; url: string; lineNumber: number; columnNumber: number};
+
+function formatFrame(frame: StackFrame): string {
+  // CDP positions are 0-based.
+  const location = `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
+  return frame.functionName ? `${frame.functionName} (${location})` : location;
+}
+
+function getStack(request: HTTPRequest): string[] {
+  const frames: StackFrame[] = request.initiator()?.stack?.callFrames ?? [];
+  return frames.map(formatFrame);
+}
+
+function truncateBody(body: string): string {
+  return body.length > MAX_BODY_LENGTH
+    ? `${body.slice(0, MAX_BODY_LENGTH)}... (${body.length - MAX_BODY_LENGTH} more characters)`
+    : body;
+}
+
+/**
+ * Logs the network requests of one page, keeping the most recent
+ * `MAX_NETWORK_REQUESTS`. Requests survive navigations.
+ */
+export class NetworkCollector {
+  #page: Page;
+  #records: RequestRecord[] = [];
+  #byRequest = new Map<HTTPRequest, RequestRecord>();
+  // CDP request ids of requests still loading.
+  #byRequestId = new Map<string, RequestRecord>();
+  #nextId = 1;
+  #document = 0;
+
+  constructor(page: Page) {
+    this.#page = page;
+    page.on('request', request => {
+      if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+        this.#document++;
+      }
+      const initiator = request.initiator();
+      const topFrame = initiator?.stack?.callFrames[0];
+      const record: RequestRecord = {
+        entry: {
+          id: this.#nextId++,
+          url: request.url(),
+          method: request.method(),
+          resourceType: request.resourceType(),
+          startTime: Date.now(),
+          ...(initiator && {initiator: topFrame ? formatFrame(topFrame) : initiator.type}),
+        },
+        request,
+        document: this.#document,
+        matched: false,
+      };
+      this.#push(record);
+    });
+    page.on('response', response => {
+      const record = this.#byRequest.get(response.request());
+      if (!record) {
+        return;
+      }
+      record.entry.status = response.status();
+      record.entry.statusText = response.statusText();
+      record.entry.mimeType = response.headers()['content-type']?.split(';')[0];
+      record.entry.fromCache = response.fromCache();
+    });
+    page.on('requestfinished', request => this.#finish(request));
+    page.on('requestfailed', request => {
+      this.#finish(request, request.failure()?.errorText ?? 'failed');
+    });
+    const client = (page as any)._client();
+    // Puppeteer emits `request` from its own listener for this event, which
+    // was registered first, so the record is already among the newest ones.
+    client.on(
+      'Network.requestWillBeSent',
+      (event: {requestId: string; request: {url: string; method: string}}) => {
+        for (let idx = this.#records.length - 1; idx >= Math.max(0, this.#records.length - 20); idx--) {
+          const record = this.#records[idx];
+          if (
+            record.requestId === undefined &&
+            record.entry.method === event.request.method &&
+            // CDP sends the fragment separately.
+            record.entry.url.replace(/#.*$/, '') === event.request.url
+          ) {
+            record.requestId = event.requestId;
+            this.#byRequestId.set(event.requestId, record);
+            return;
+          }
+        }
+      },
+    );
+    client.on(
+      'Network.loadingFinished',
+      (event: {requestId: string; encodedDataLength: number}) => {
+        const record = this.#byRequestId.get(event.requestId);
+        if (record) {
+          record.entry.size = event.encodedDataLength;
+          this.#byRequestId.delete(event.requestId);
+        }
+      },
+    );
+  }
+
+  #push(record: RequestRecord) {
+    this.#records.push(record);
+    this.#byRequest.set(record.request, record);
+    if (this.#records.length > MAX_NETWORK_REQUESTS) {
+      for (const dropped of this.#records.splice(0, this.#records.length - MAX_NETWORK_REQUESTS)) {
+        this.#forget(dropped);
+      }
+    }
+  }
+
+  #forget(record: RequestRecord) {
+    this.#byRequest.delete(record.request);
+    if (record.requestId !== undefined && this.#byRequestId.get(record.requestId) === record) {
+      this.#byRequestId.delete(record.requestId);
+    }
+  }
+
+  #finish(request: HTTPRequest, failure?: string) {
+    const record = this.#byRequest.get(request);
+    if (!record) {
+      return;
+    }
+    record.entry.durationMs = Date.now() - record.entry.startTime;
+    if (failure) {
+      record.entry.failure = failure;
+      if (record.requestId !== undefined) {
+        this.#byRequestId.delete(record.requestId);
+      }
+    }
+  }
+
+  /**
+   * Pairs fetch and XHR calls reported by the page with the requests of the
+   * current document, in order, by method and URL.
+   */
+  attribute(initiators: NetworkInitiator[]) {
+    for (const initiator of initiators) {
+      const record = this.#records.find(
+        candidate =>
+          !candidate.matched &&
+          candidate.document === this.#document &&
+          (candidate.entry.resourceType === 'fetch' || candidate.entry.resourceType === 'xhr') &&
+          candidate.entry.method === initiator.method &&
+          candidate.entry.url.replace(/#.*$/, '') === initiator.url,
+      );
+      if (record) {
+        record.matched = true;
+        if (initiator.component) {
+          record.entry.component = initiator.component;
+        }
+      }
+    }
+  }
+
+  /** Most recent matching requests, oldest first. */
+  list(options: NetworkRequestsOptions = {}): {requests: NetworkRequestEntry[]; total: number} {
+    const types = options.resourceTypes?.length ? new Set(options.resourceTypes) : null;
+    const matching = this.#records
+      .map(record => record.entry)
+      .filter(
+        entry =>
+          (!types || types.has(entry.resourceType)) &&
+          (!options.urlFilter || entry.url.includes(options.urlFilter)) &&
+          (!options.component || entry.component?.name === options.component),
+      );
+    if (options.clear) {
+      this.#records = [];
+      this.#byRequest.clear();
+      this.#byRequestId.clear();
+    }
+    const limit = options.limit ?? 50;
+    return {requests: matching.slice(-limit).map(entry => ({...entry})), total: matching.length};
+  }
+
+  async get(id: number, includeBodies: boolean): Promise<NetworkRequestDetails> {
+    const record = this.#records.find(candidate => candidate.entry.id === id);
+    if (!record) {
+      throw new Error(
+        `Network request ${id} not found. Call list_network_requests to see logged requests.`,
+      );
+    }
+    const {request, entry} = record;
+    const response = request.response();
+    const details: NetworkRequestDetails = {
+      ...entry,
+      requestHeaders: request.headers(),
+      ...(response && {responseHeaders: response.headers()}),
+      stack: getStack(request),
+    };
+    if (!includeBodies) {
+      return details;
+    }
+
+    if (request.hasPostData()) {
+      const body = await request.fetchPostData().catch(() => undefined);
+      details.requestBody = body === undefined ? '(body unavailable)' : truncateBody(body);
+    }
+    if (response && entry.durationMs !== undefined && !entry.failure) {
+      const isRedirect = response.status() >= 300 && response.status() < 400;
+      if (isRedirect) {
+        details.responseBody = '(redirect, no body)';
+      } else if (entry.mimeType && !TEXT_MIME_TYPE.test(entry.mimeType)) {
+        details.responseBody = `(${entry.mimeType} body${entry.size !== undefined ? `, ${entry.size} bytes` : ''})`;
+      } else {
+        // The browser drops bodies once the page navigates away.
+        details.responseBody = await response
+          .text()
+          .then(truncateBody)
+          .catch(() => '(body unavailable)');
+      }
+    }
+    return details;
+  }
+}
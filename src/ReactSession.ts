@@ -3,8 +3,95 @@ import path from 'node:path';
 import {createRequire} from 'node:module';
 
 import {logger} from './logger.js';
-import type {ReactAttachResult, ReactRootInfo} from './tools/ToolDefinition.js';
-import type {Page} from './third_party/index.js';
+import {
+  installPageAgent,
+  type BackendNodeLocation,
+  type NetworkInitiator,
+  type PageAgent,
+} from './pageAgent.js';
+import {SourceMapResolver, type SourceMapResolverOptions} from './SourceMapResolver.js';
+import type {
+  BoundaryOverrideKind,
+  BoundaryOverrideResult,
+  ComponentContexts,
+  ComponentDetails,
+  ComponentEdit,
+  ComponentEditResult,
+  ComponentMap,
+  ComponentMapNode,
+  ComponentMapOptions,
+  ComponentMapTiming,
+  ComponentNode,
+  ComponentTarget,
+  ContextProviderInfo,
+  ElementTarget,
+  HighlightResult,
+  HydrationReport,
+  InteractionAction,
+  InteractionResult,
+  ListComponentsOptions,
+  ProfilingSession,
+  ReactAttachResult,
+  ReactErrorEntry,
+  ReactRootInfo,
+  RenderExplanation,
+  SnapshotNode,
+  SuspenseBoundaryInfo,
+  WaitCondition,
+  WaitResult,
+} from './tools/ToolDefinition.js';
+import type {ElementHandle, KeyInput, Page} from './third_party/index.js';
+
+// AX node properties copied onto snapshot nodes.
+const SNAPSHOT_PROPERTIES = new Set([
+  'autocomplete',
+  'checked',
+  'disabled',
+  'expanded',
+  'focusable',
+  'focused',
+  'haspopup',
+  'invalid',
+  'keyshortcuts',
+  'level',
+  'modal',
+  'multiline',
+  'multiselectable',
+  'orientation',
+  'pressed',
+  'readonly',
+  'required',
+  'roledescription',
+  'selected',
+  'valuemax',
+  'valuemin',
+  'valuetext',
+]);
+
+type WaitCheck =
+  | {met: true; result: Omit<WaitResult, 'elapsedMs'>}
+  | {met: false; detail: string};
+
+// Errors from evaluating in a page that is loading a new document.
+const NAVIGATION_ERROR =
+  /Execution context was destroyed|Cannot find context with specified id|Inspected target navigated or closed|detached Frame|Execution context is not available/i;
+
+function isNavigationError(error: unknown): boolean {
+  return error instanceof Error && NAVIGATION_ERROR.test(error.message);
+}
+
+function describeWaitCondition(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case 'component':
+      return `${condition.name} to be ${condition.state}`;
+    case 'suspense':
+      return 'pending Suspense boundaries to resolve';
+    case 'idle':
+      return `React to stop committing for ${condition.quietMs}ms`;
+    case 'text':
+      return `"${condition.text}" to appear`;
+  }
+}
 
 /**
  * Manages injecting the React DevTools backend into a Puppeteer page and
@@ -14,11 +101,49 @@ import type {Page} from './third_party/index.js';
 export class ReactSession {
   #page: Page;
   #backendInjected = false;
+  #sourceMaps: SourceMapResolver;
   static #backendPath: string | null = null;
   static #backendSource: string | null = null;
 
-  constructor(page: Page) {
+  constructor(page: Page, options: SourceMapResolverOptions = {}) {
     this.#page = page;
+    this.#sourceMaps = new SourceMapResolver(page, options);
+    this.#forwardConsoleReports();
+  }
+
+  /**
+   * Hands React's console reports of render errors to the page agent. This
+   * listens through CDP rather than wrapping `console`, which would make the
+   * agent the caller of every error and warning the app logs.
+   */
+  #forwardConsoleReports() {
+    const client = (this.#page as any)._client();
+    client.on(
+      'Runtime.consoleAPICalled',
+      (event: {type: string; args: any[]; executionContextId: number}) => {
+        if (
+          (event.type !== 'error' && event.type !== 'warning') ||
+          !event.args.some(arg => typeof arg.value === 'string' && /error occurred in/i.test(arg.value))
+        ) {
+          return;
+        }
+        client
+          .send('Runtime.callFunctionOn', {
+            functionDeclaration: `function (...args) {
+              globalThis.__REACT_DEVTOOLS_MCP__?.inspectConsoleReport(args);
+            }`,
+            executionContextId: event.executionContextId,
+            arguments: event.args.map(arg =>
+              arg.objectId
+                ? {objectId: arg.objectId}
+                : arg.unserializableValue
+                  ? {unserializableValue: arg.unserializableValue}
+                  : {value: arg.value},
+            ),
+          })
+          .catch(() => {});
+      },
+    );
   }
 
   static resolveBackendPath(): string {
@@ -60,18 +185,38 @@ export class ReactSession {
           ? existing.getFiberRoots
           : (id) => fiberRootsMap.get(id) || new Set();
         const fiberRootsMap = existing?._fiberRoots || new Map();
+        const commitListeners = existing?._commitListeners || new Set();
         let nextId = renderers.size + 1;
         const injectBase = typeof existing?.inject === 'function' ? existing.inject : null;
+        // Unwrap our own earlier wrapper so listeners are not notified twice.
+        const previousOnCommit = existing?.onCommitFiberRoot;
         const onCommitBase =
-          typeof existing?.onCommitFiberRoot === 'function'
-            ? existing.onCommitFiberRoot
-            : null;
+          previousOnCommit && '_base' in previousOnCommit
+            ? previousOnCommit._base
+            : typeof previousOnCommit === 'function'
+              ? previousOnCommit
+              : null;
         const hook = existing || {};
         hook.supportsFiber = true;
         hook.renderers = renderers;
         hook._fiberRoots = fiberRootsMap;
+        hook._commitListeners = commitListeners;
         hook.getFiberRoots = id => fiberRootsMap.get(id) || new Set();
+        // Remembers the profiling hooks the DevTools backend injects into a
+        // renderer, so the page agent can extend them instead of replacing them.
+        const trackProfilingHooks = renderer => {
+          const base = renderer?.injectProfilingHooks;
+          if (typeof base !== 'function' || base._tracked) return;
+          const inject = function (hooks) {
+            renderer._profilingHooks = hooks;
+            const extend = renderer._extendProfilingHooks;
+            return base.call(this, extend ? extend(hooks) : hooks);
+          };
+          inject._tracked = true;
+          renderer.injectProfilingHooks = inject;
+        };
         hook.inject = function (renderer) {
+          try { trackProfilingHooks(renderer); } catch (e) {}
           const id = injectBase ? injectBase.call(this, renderer) : nextId++;
           try { renderers.set(id, renderer); } catch (e) {}
           return id;
@@ -83,10 +228,14 @@ export class ReactSession {
             fiberRootsMap.set(id, roots);
           }
           roots.add(root);
+          commitListeners.forEach(listener => {
+            try { listener(id, root); } catch (e) {}
+          });
           if (onCommitBase) {
             try { onCommitBase.call(this, id, root, ...rest); } catch (e) {}
           }
         };
+        hook.onCommitFiberRoot._base = onCommitBase;
         globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
       })();
     `;
@@ -102,6 +251,7 @@ export class ReactSession {
         console.warn('React DevTools MCP preload failed', e);
       }
     }, backendSource, hookBootstrap);
+    await this.#page.evaluateOnNewDocument(installPageAgent);
 
     // Check if hook exists AND has renderers
     const hasRenderers = await this.#page.evaluate(() => {
@@ -172,6 +322,92 @@ export class ReactSession {
     }
   }
 
+  async #ensurePageAgent(): Promise<void> {
+    await this.ensureBackendInjected();
+    await this.#page.evaluate(installPageAgent);
+  }
+
+  /**
+   * Completes component sources in the page agent before a tool reads them:
+   * components with no other source get the definition location of their
+   * function from V8's [[FunctionLocation]], then every location that points
+   * into a loaded script is translated through its source map. Each function
+   * and location is handled once per page load.
+   */
+  async #ensureComponentSources(): Promise<void> {
+    await this.#ensureFunctionSources();
+    const pending = await this.#page.evaluate(() => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.collectUnresolvedSources();
+    });
+    if (pending.length === 0) {
+      return;
+    }
+    const entries = await Promise.all(
+      pending.map(async source => {
+        const original = await this.#sourceMaps.resolve(source).catch(() => null);
+        return [source, original] as [typeof source, typeof original];
+      }),
+    );
+    await this.#page.evaluate(entries => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      agent.recordResolvedSources(entries);
+    }, entries);
+  }
+
+  async #ensureFunctionSources(): Promise<void> {
+    const client = (this.#page as any)._client();
+    const objectGroup = 'react-mcp-function-sources';
+    try {
+      const {result: functions} = await client.send('Runtime.evaluate', {
+        expression: 'globalThis.__REACT_DEVTOOLS_MCP__?.collectFunctionsWithoutSource() ?? []',
+        objectGroup,
+      });
+      if (!functions?.objectId) {
+        return;
+      }
+      const {result: entries} = await client.send('Runtime.getProperties', {
+        objectId: functions.objectId,
+        ownProperties: true,
+      });
+      const items = (entries as Array<{name: string; value?: {objectId?: string}}>).filter(
+        entry => /^\d+$/.test(entry.name) && entry.value?.objectId,
+      );
+      if (items.length === 0) {
+        return;
+      }
+
+      const sources: Array<ComponentDetails['source'] | null> = [];
+      await Promise.all(
+        items.map(async entry => {
+          const {internalProperties} = await client
+            .send('Runtime.getProperties', {objectId: entry.value!.objectId, ownProperties: true})
+            .catch(() => ({internalProperties: []}));
+          const location = (internalProperties ?? []).find(
+            (property: {name: string}) => property.name === '[[FunctionLocation]]',
+          )?.value?.value;
+          const url = location ? await this.#sourceMaps.getScriptUrl(location.scriptId) : undefined;
+          // CDP locations are 0-based; sources are reported 1-based.
+          sources[Number(entry.name)] = url
+            ? {fileName: url, lineNumber: location.lineNumber + 1, columnNumber: location.columnNumber + 1}
+            : null;
+        }),
+      );
+
+      await client.send('Runtime.callFunctionOn', {
+        objectId: functions.objectId,
+        functionDeclaration: `function(sources) {
+          globalThis.__REACT_DEVTOOLS_MCP__.recordFunctionSources(this, sources);
+        }`,
+        arguments: [{value: sources}],
+      });
+    } catch (error) {
+      logger(`Failed to read component function locations: ${String(error)}`);
+    } finally {
+      await client.send('Runtime.releaseObjectGroup', {objectGroup}).catch(() => {});
+    }
+  }
+
   async attach(): Promise<ReactAttachResult> {
     try {
       await this.ensureBackendInjected();
@@ -305,7 +541,652 @@ export class ReactSession {
     return results;
   }
 
-  async takeSnapshot(verbose = false) {
+  async listComponents(options: ListComponentsOptions): Promise<ComponentNode[]> {
+    await this.#ensurePageAgent();
+    return this.#page.evaluate(options => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.listComponents(options);
+    }, options);
+  }
+
+  async getComponentById(id: string): Promise<ComponentDetails | null> {
+    await this.#ensurePageAgent();
+    await this.#ensureComponentSources();
+    return this.#page.evaluate(id => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.inspectComponent(id);
+    }, id);
+  }
+
+  /**
+   * Resolves a CDP backend node id to the id of the nearest component that
+   * rendered it.
+   */
+  async #getComponentIdForBackendNode(backendDOMNodeId: number): Promise<string> {
+    await this.#ensurePageAgent();
+    const client = (this.#page as any)._client();
+
+    // Enable required CDP domains
+    await client.send('DOM.enable');
+    await client.send('DOM.getDocument');
+
+    const {object} = await client.send('DOM.resolveNode', {
+      backendNodeId: backendDOMNodeId,
+    });
+    if (!object || !object.objectId) {
+      throw new Error('Failed to resolve backendNodeId to DOM element');
+    }
+
+    try {
+      const {result} = await client.send('Runtime.callFunctionOn', {
+        objectId: object.objectId,
+        functionDeclaration: `function() {
+          return globalThis.__REACT_DEVTOOLS_MCP__.getComponentIdForElement(this);
+        }`,
+        returnByValue: true,
+      });
+      const {id, error} = result.value as {id?: string; error?: string};
+      if (!id) {
+        throw new Error(error ?? 'No React component found in fiber tree');
+      }
+      return id;
+    } finally {
+      await client.send('Runtime.releaseObject', {objectId: object.objectId}).catch(() => {});
+    }
+  }
+
+  async getComponentByBackendNodeId(backendDOMNodeId: number): Promise<ComponentDetails> {
+    const id = await this.#getComponentIdForBackendNode(backendDOMNodeId);
+    const details = await this.getComponentById(id);
+    if (!details) {
+      throw new Error(`Component for backendDOMNodeId ${backendDOMNodeId} is no longer mounted`);
+    }
+    return details;
+  }
+
+  async resolveComponentId(target: ComponentTarget): Promise<string> {
+    if (target.id) {
+      return target.id;
+    }
+    if (target.backendDOMNodeId !== undefined) {
+      return this.#getComponentIdForBackendNode(target.backendDOMNodeId);
+    }
+    throw new Error('Either a component id or a backendDOMNodeId is required.');
+  }
+
+  async editComponent(
+    target: ComponentTarget,
+    edit: ComponentEdit,
+  ): Promise<ComponentEditResult> {
+    const id = await this.resolveComponentId(target);
+    await this.#ensurePageAgent();
+    const {error, rerendered} = await this.#page.evaluate(
+      async (id, edit) => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        const committed = agent.waitForCommit(1000);
+        const error = agent.applyEdit(id, edit);
+        return {error, rerendered: error ? false : await committed};
+      },
+      id,
+      edit,
+    );
+    if (error) {
+      throw new Error(error);
+    }
+    const component = await this.getComponentById(id);
+    if (!component) {
+      throw new Error(`Component ${id} unmounted after the edit`);
+    }
+    return {component, rerendered};
+  }
+
+  async explainRender(target: ComponentTarget): Promise<RenderExplanation> {
+    const id = await this.resolveComponentId(target);
+    await this.#ensurePageAgent();
+    const explanation = await this.#page.evaluate(id => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.explainRender(id);
+    }, id);
+    if (!explanation) {
+      throw new Error(`Component ${id} not found. It may have unmounted.`);
+    }
+    return explanation;
+  }
+
+  async listContextProviders(target: ComponentTarget = {}): Promise<ContextProviderInfo[]> {
+    const id =
+      target.id || target.backendDOMNodeId !== undefined
+        ? await this.resolveComponentId(target)
+        : undefined;
+    await this.#ensurePageAgent();
+    const providers = await this.#page.evaluate(id => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.listContextProviders(id);
+    }, id);
+    if (!providers) {
+      throw new Error(`Component ${id} not found. It may have unmounted.`);
+    }
+    return providers;
+  }
+
+  async getComponentContexts(target: ComponentTarget): Promise<ComponentContexts> {
+    const id = await this.resolveComponentId(target);
+    await this.#ensurePageAgent();
+    const contexts = await this.#page.evaluate(id => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.getComponentContexts(id);
+    }, id);
+    if (!contexts) {
+      throw new Error(`Component ${id} not found. It may have unmounted.`);
+    }
+    return contexts;
+  }
+
+  async listSuspenseBoundaries(includeResolved: boolean): Promise<SuspenseBoundaryInfo[]> {
+    await this.#ensurePageAgent();
+    return this.#page.evaluate(includeResolved => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.listSuspenseBoundaries(includeResolved);
+    }, includeResolved);
+  }
+
+  async overrideBoundary(
+    target: ComponentTarget,
+    kind: BoundaryOverrideKind,
+    force: boolean,
+  ): Promise<BoundaryOverrideResult> {
+    const id = await this.resolveComponentId(target);
+    await this.#ensurePageAgent();
+    const {boundary, error, rerendered} = await this.#page.evaluate(
+      async (id, kind, force) => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        const committed = agent.waitForCommit(1000);
+        const {boundary, error} = agent.overrideBoundary(id, kind, force);
+        return {boundary, error, rerendered: error ? false : await committed};
+      },
+      id,
+      kind,
+      force,
+    );
+    if (!boundary) {
+      throw new Error(error ?? `Component ${id} not found. It may have unmounted.`);
+    }
+    return {boundary, forced: force, rerendered};
+  }
+
+  async getReactErrors(options: {clear?: boolean} = {}): Promise<ReactErrorEntry[]> {
+    await this.#ensurePageAgent();
+    await this.#ensureComponentSources();
+    return this.#page.evaluate(clear => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.getReactErrors(clear);
+    }, options.clear ?? false);
+  }
+
+  /**
+   * Loads `url`, keeps the HTML document the server sent and, once React has
+   * stopped committing for `settleMs`, compares it with the DOM the page
+   * agent recorded in each root's hydration commit.
+   */
+  async detectHydrationMismatches(
+    url: string,
+    options: {timeout?: number; settleMs?: number; maxMismatches?: number} = {},
+  ): Promise<Omit<HydrationReport, 'warnings'>> {
+    // The hook must be in place before React loads to see the roots.
+    await this.ensureBackendInjected();
+    const response = await this.#page.goto(url, {waitUntil: 'load', timeout: options.timeout});
+    if (!response) {
+      throw new Error(`Navigating to ${url} did not load a new document`);
+    }
+    const contentType = response.headers()['content-type'] ?? '';
+    if (!contentType.includes('html')) {
+      throw new Error(`${response.url()} returned ${contentType || 'no content type'}, not HTML`);
+    }
+    const html = await response.text();
+
+    await this.#ensurePageAgent();
+    await this.#page.evaluate(async (settleMs, timeoutMs) => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline && (await agent.waitForCommit(settleMs))) {
+        // Keep waiting while hydration, including that of Suspense
+        // boundaries, still commits.
+      }
+    }, options.settleMs ?? 500, options.timeout ?? 10_000);
+    await this.#ensureComponentSources();
+
+    const result = await this.#page.evaluate(
+      (html, maxMismatches) => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        return agent.compareServerHtml(html, maxMismatches);
+      },
+      html,
+      options.maxMismatches ?? 50,
+    );
+    return {url: response.url(), ...result};
+  }
+
+  /**
+   * Fetch and XHR calls the page agent saw since the last call. Empty until
+   * the agent is installed; this never injects it, since that may reload.
+   */
+  async takeNetworkInitiators(): Promise<NetworkInitiator[]> {
+    return this.#page
+      .evaluate(() => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent | undefined;
+        return agent?.takeNetworkInitiators() ?? [];
+      })
+      .catch(() => []);
+  }
+
+  /**
+   * Checks `condition` after every React commit, and at least every 250ms
+   * for text that may change without one, until it holds or `timeout`
+   * passes. Checks that fail while the page navigates count as unmet, so
+   * this can be called right after a `domcontentloaded` navigation.
+   */
+  async waitFor(condition: WaitCondition, options: {timeout?: number} = {}): Promise<WaitResult> {
+    const timeout = options.timeout || 10_000;
+    if (condition.kind === 'idle' && condition.quietMs > timeout) {
+      throw new Error(
+        `quietMs (${condition.quietMs}) must not exceed the timeout (${timeout}ms), or the wait can never succeed.`,
+      );
+    }
+    const started = Date.now();
+    const deadline = started + timeout;
+    await this.ensureBackendInjected();
+
+    for (;;) {
+      const check: WaitCheck = await this.#checkWaitCondition(
+        condition,
+        deadline - Date.now(),
+      ).catch(error => {
+        // Anything else, like a CDP protocol error, is a real failure.
+        if (isNavigationError(error)) {
+          return {met: false, detail: 'the page was loading a new document'} as const;
+        }
+        throw error;
+      });
+      if (check.met) {
+        return {elapsedMs: Date.now() - started, ...check.result};
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(
+          `Timed out after ${timeout}ms waiting for ${describeWaitCondition(condition)}: ${check.detail}.`,
+        );
+      }
+      if (condition.kind === 'idle' && check.detail === 'React is still committing') {
+        continue;
+      }
+      await this.#page
+        .evaluate(async ms => {
+          const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent | undefined;
+          await (agent ? agent.waitForCommit(ms) : new Promise(resolve => setTimeout(resolve, ms)));
+        }, Math.min(250, remaining))
+        .catch(error => {
+          if (!isNavigationError(error)) {
+            throw error;
+          }
+          // Give the page a moment to load the next document.
+          return new Promise(resolve => setTimeout(resolve, Math.min(100, remaining)));
+        });
+    }
+  }
+
+  async #checkWaitCondition(condition: WaitCondition, remaining: number): Promise<WaitCheck> {
+    if (condition.kind === 'text') {
+      const client = (this.#page as any)._client();
+      await client.send('Accessibility.enable');
+      const {nodes} = await client.send('Accessibility.getFullAXTree');
+      const matches = (nodes as any[])
+        .filter(
+          node =>
+            !node.ignored &&
+            [node.name?.value, node.value?.value].some(
+              value => typeof value === 'string' && value.includes(condition.text),
+            ),
+        )
+        .map(node => ({
+          role: node.role?.value,
+          name: node.name?.value,
+          backendDOMNodeId: node.backendDOMNodeId,
+        }));
+      return matches.length > 0
+        ? {met: true, result: {matches: matches.slice(0, 10)}}
+        : {met: false, detail: 'the text is not in the accessibility tree'};
+    }
+
+    const hasRoots = await this.#page.evaluate(() => {
+      const hook = (globalThis as any).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+      let roots = 0;
+      hook?.renderers?.forEach((_: unknown, rendererId: number) => {
+        roots += hook.getFiberRoots?.(rendererId)?.size ?? 0;
+      });
+      return roots > 0;
+    });
+    if (!hasRoots) {
+      return {met: false, detail: 'React has not rendered a root yet'};
+    }
+    await this.#ensurePageAgent();
+
+    switch (condition.kind) {
+      case 'component': {
+        const components = await this.#page.evaluate(name => {
+          const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+          return agent
+            .listComponents({depth: Number.MAX_SAFE_INTEGER, maxNodes: 10_000, nameFilter: name})
+            .filter(component => component.name === name);
+        }, condition.name);
+        if (condition.state === 'mounted') {
+          return components.length > 0
+            ? {met: true, result: {components: components.slice(0, 10)}}
+            : {met: false, detail: `no ${condition.name} is mounted`};
+        }
+        return components.length === 0
+          ? {met: true, result: {}}
+          : {
+              met: false,
+              detail: `${components.length} ${condition.name} still mounted (${components[0].path})`,
+            };
+      }
+      case 'suspense': {
+        // Boundaries held by force_suspense would never resolve.
+        const pending = (await this.listSuspenseBoundaries(false)).filter(
+          boundary => !boundary.forced,
+        );
+        return pending.length === 0
+          ? {met: true, result: {}}
+          : {
+              met: false,
+              detail: `${pending.length} Suspense boundar${pending.length === 1 ? 'y is' : 'ies are'} ${pending[0].state} (${pending[0].path})`,
+            };
+      }
+      case 'idle': {
+        if (remaining < condition.quietMs) {
+          return {met: false, detail: 'React committed too recently to wait another quiet period'};
+        }
+        const committed = await this.#page.evaluate(ms => {
+          const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+          return agent.waitForCommit(ms);
+        }, condition.quietMs);
+        return committed
+          ? {met: false, detail: 'React is still committing'}
+          : {met: true, result: {}};
+      }
+    }
+  }
+
+  /**
+   * Wraps a CDP backend node in an element handle. Puppeteer cannot wrap a
+   * CDP object itself, so the page agent holds the resolved node until
+   * `evaluateHandle` picks it up.
+   */
+  async #adoptBackendNode(backendDOMNodeId: number): Promise<ElementHandle<Element> | null> {
+    const client = (this.#page as any)._client();
+    const {object} = await client
+      .send('DOM.resolveNode', {backendNodeId: backendDOMNodeId})
+      .catch(() => ({object: null}));
+    if (!object?.objectId) {
+      return null;
+    }
+    let token: number;
+    try {
+      const {result} = await client.send('Runtime.callFunctionOn', {
+        objectId: object.objectId,
+        functionDeclaration: `function() {
+          return globalThis.__REACT_DEVTOOLS_MCP__.holdNode(this);
+        }`,
+        returnByValue: true,
+      });
+      token = result.value;
+    } finally {
+      await client.send('Runtime.releaseObject', {objectId: object.objectId}).catch(() => {});
+    }
+    const handle = await this.#page.evaluateHandle(token => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.takeHeldNode(token);
+    }, token);
+    const element = handle.asElement();
+    if (!element) {
+      await handle.dispose();
+      return null;
+    }
+    return element as ElementHandle<Element>;
+  }
+
+  async #resolveElement(target: ElementTarget): Promise<ElementHandle<Element>> {
+    // McpContext has already turned snapshot uids into backend node ids.
+    const {backendDOMNodeId} = target;
+    if (backendDOMNodeId !== undefined) {
+      const handle = await this.#adoptBackendNode(backendDOMNodeId);
+      if (!handle) {
+        throw new Error(`DOM node ${backendDOMNodeId} no longer exists. Call take_snapshot again.`);
+      }
+      return handle;
+    }
+    if (target.role || target.name) {
+      if (!target.role || !target.name) {
+        throw new Error('Both role and name are required to find an element by its accessible name.');
+      }
+      // queryAXTree takes the role and name as values, so they need no escaping.
+      const client = (this.#page as any)._client();
+      const {root} = await client.send('DOM.getDocument', {depth: 0});
+      const {nodes} = await client.send('Accessibility.queryAXTree', {
+        backendNodeId: root.backendNodeId,
+        accessibleName: target.name,
+        role: target.role,
+      });
+      const match = (nodes as any[]).find(node => !node.ignored && node.backendDOMNodeId !== undefined);
+      const handle = match ? await this.#adoptBackendNode(match.backendDOMNodeId) : null;
+      if (!handle) {
+        throw new Error(`No element found with role="${target.role}" and name="${target.name}"`);
+      }
+      return handle;
+    }
+    if (target.id) {
+      await this.#ensurePageAgent();
+      const handle = await this.#page.evaluateHandle(id => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        const fiber = agent.findFiberById(id);
+        return fiber ? (agent.getHostNodes(fiber)[0] ?? null) : null;
+      }, target.id);
+      const element = handle.asElement();
+      if (!element) {
+        await handle.dispose();
+        throw new Error(`Component ${target.id} is not mounted or renders no DOM element.`);
+      }
+      return element as ElementHandle<Element>;
+    }
+    throw new Error('A uid, backendDOMNodeId, role and name, or component id is required.');
+  }
+
+  /**
+   * Performs a user interaction and records the commits React makes in
+   * response, until React has not committed for 300ms (at most 3s).
+   */
+  async interact(
+    target: ElementTarget | undefined,
+    action: InteractionAction,
+    options: {timeout?: number} = {},
+  ): Promise<InteractionResult> {
+    if (!target && action.type !== 'press_key') {
+      throw new Error(`${action.type} needs a target element.`);
+    }
+    await this.#ensurePageAgent();
+    const element = target ? await this.#resolveElement(target) : null;
+    try {
+      const description = element
+        ? await element.evaluate(node => {
+            const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+            const label = (
+              node.getAttribute('aria-label') ||
+              node.getAttribute('placeholder') ||
+              (node as HTMLElement).innerText ||
+              ''
+            )
+              .trim()
+              .replace(/\s+/g, ' ');
+            const owner = agent.getNearestComponentFiber(agent.getFiberFromElement(node));
+            return [
+              node.tagName.toLowerCase(),
+              label && `"${label.length > 40 ? `${label.slice(0, 40)}...` : label}"`,
+              owner && `in ${agent.getComponentName(owner)} (id ${agent.getFiberId(owner)})`,
+            ]
+              .filter(Boolean)
+              .join(' ');
+          })
+        : undefined;
+
+      const key = `interaction-${Date.now()}`;
+      await this.#page.evaluate(key => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        agent.startRecording(key);
+      }, key);
+      const url = this.#page.url();
+
+      const timeout = options.timeout || 5000;
+      try {
+        await this.#performAction(element, action, timeout);
+      } catch (error) {
+        await this.#page
+          .evaluate(key => {
+            const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+            agent.stopRecording(key);
+          }, key)
+          .catch(() => {});
+        throw error;
+      }
+
+      const session = await this.#page
+        .evaluate(async key => {
+          const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+          const deadline = Date.now() + 3000;
+          while (Date.now() < deadline && (await agent.waitForCommit(300))) {
+            // Keep recording while the interaction still causes commits.
+          }
+          return agent.stopRecording(key);
+        }, key)
+        .catch(() => null);
+      const navigated = this.#page.url() !== url;
+      return {
+        ...(description && {element: description}),
+        session: navigated ? null : session,
+        ...(navigated && {navigatedTo: this.#page.url()}),
+      };
+    } finally {
+      await element?.dispose();
+    }
+  }
+
+  async #performAction(
+    element: ElementHandle<Element> | null,
+    action: InteractionAction,
+    timeout: number,
+  ): Promise<void> {
+    switch (action.type) {
+      case 'click':
+        await element!.asLocator().setTimeout(timeout).click({count: action.double ? 2 : 1});
+        break;
+      case 'hover':
+        await element!.asLocator().setTimeout(timeout).hover();
+        break;
+      case 'fill':
+        await element!.asLocator().setTimeout(timeout).fill(action.value);
+        break;
+      case 'select_option': {
+        // Accept option labels as well as values.
+        const values = await element!.evaluate((node, wanted) => {
+          if (!(node instanceof HTMLSelectElement)) {
+            throw new Error(`Expected a <select> element, got <${node.tagName.toLowerCase()}>`);
+          }
+          return wanted.map(value => {
+            const option = [...node.options].find(
+              option => option.value === value || option.label === value,
+            );
+            if (!option) {
+              throw new Error(`<select> has no option with value or label "${value}"`);
+            }
+            return option.value;
+          });
+        }, action.values);
+        await element!.select(...values);
+        break;
+      }
+      case 'press_key': {
+        await element?.focus();
+        // "Control+Shift+K": hold the modifiers around the last key.
+        const keys = action.key.split('+') as KeyInput[];
+        const key = keys.pop()!;
+        const pressed: KeyInput[] = [];
+        try {
+          for (const modifier of keys) {
+            await this.#page.keyboard.down(modifier);
+            pressed.push(modifier);
+          }
+          await this.#page.keyboard.press(key);
+        } finally {
+          // Release them even when a key name is invalid, or they stay held
+          // for every later interaction on the page.
+          for (const modifier of pressed.reverse()) {
+            await this.#page.keyboard.up(modifier);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  async startProfiling(): Promise<void> {
+    await this.#ensurePageAgent();
+    const started = await this.#page.evaluate(() => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.startRecording('profiler');
+    });
+    if (!started) {
+      throw new Error('The profiler is already running. Call stop_profiling first.');
+    }
+  }
+
+  async stopProfiling(): Promise<ProfilingSession> {
+    await this.#ensurePageAgent();
+    const session = await this.#page.evaluate(() => {
+      const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+      return agent.stopRecording('profiler');
+    });
+    if (!session) {
+      throw new Error(
+        'The profiler is not running on this page. It stops when the page navigates or reloads.',
+      );
+    }
+    return session;
+  }
+
+  async highlightComponent(
+    id: string,
+    options: {durationMs?: number; screenshot?: boolean} = {},
+  ): Promise<HighlightResult> {
+    await this.#ensurePageAgent();
+    await this.#ensureComponentSources();
+    const result = await this.#page.evaluate(
+      (id, durationMs) => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        return agent.highlight(id, durationMs);
+      },
+      id,
+      options.durationMs ?? 3000,
+    );
+    if (result.ok && options.screenshot) {
+      result.screenshot = await this.#page.screenshot({
+        encoding: 'base64',
+        type: 'png',
+      });
+    }
+    return result;
+  }
+
+  /** `snapshotId` prefixes the uid of every node. */
+  async takeSnapshot(verbose: boolean, snapshotId: string) {
     await this.ensureBackendInjected();
 
     // Use CDP to get full accessibility tree with backendDOMNodeId
@@ -317,7 +1198,6 @@ export class ReactSession {
       return null;
     }
 
-    const snapshotId = Date.now().toString();
     let uidCounter = 0;
 
     // CDP returns flat array - need to build hierarchy
@@ -335,48 +1215,43 @@ export class ReactSession {
       }
     }
 
-    // Process node and build hierarchy
-    const processNode = (node: any): any => {
-      // Filter by interestingOnly if needed
-      if (!verbose && node.ignored) {
-        return null;
-      }
-
-      const uid = `${snapshotId}_${uidCounter++}`;
-      const processed: any = {
-        role: node.role?.value,
-        name: node.name?.value,
-        uid,
-        backendDOMNodeId: node.backendDOMNodeId, // Add this!
-      };
-
-      // Copy a11y properties
-      if (node.value?.value !== undefined) processed.value = node.value.value;
-      if (node.description?.value !== undefined) processed.description = node.description.value;
-      if (node.keyshortcuts?.value !== undefined) processed.keyshortcuts = node.keyshortcuts.value;
-      if (node.roledescription?.value !== undefined) processed.roledescription = node.roledescription.value;
-      if (node.disabled?.value !== undefined) processed.disabled = node.disabled.value;
-      if (node.expanded?.value !== undefined) processed.expanded = node.expanded.value;
-      if (node.focused?.value !== undefined) processed.focused = node.focused.value;
-      if (node.checked?.value !== undefined) processed.checked = node.checked.value;
-      if (node.pressed?.value !== undefined) processed.pressed = node.pressed.value;
-
-      // Process children recursively
-      const childIds = childrenMap.get(node.nodeId);
-      if (childIds && childIds.length > 0) {
-        const children = childIds
-          .map((childId: string) => {
-            const childNode = nodeMap.get(childId);
-            return childNode ? processNode(childNode) : null;
-          })
-          .filter((child: any) => child !== null);
+    // Process node and build hierarchy. Without verbose, ignored nodes
+    // (layout-only containers) are left out and their children move up.
+    const processNode = (node: any): SnapshotNode[] => {
+      const processed: SnapshotNode | null =
+        !verbose && node.ignored
+          ? null
+          : {
+              role: node.role?.value,
+              name: node.name?.value,
+              uid: `${snapshotId}_${uidCounter++}`,
+              backendDOMNodeId: node.backendDOMNodeId,
+            };
 
-        if (children.length > 0) {
-          processed.children = children;
+      if (processed) {
+        if (node.value?.value !== undefined) processed.value = node.value.value;
+        if (node.description?.value !== undefined) processed.description = node.description.value;
+        // States such as disabled, expanded or checked come as properties.
+        for (const property of node.properties ?? []) {
+          if (!SNAPSHOT_PROPERTIES.has(property.name)) continue;
+          const value = property.value?.value;
+          (processed as any)[property.name] =
+            property.value?.type === 'tristate' && value !== 'mixed' ? value === 'true' : value;
         }
       }
 
-      return processed;
+      // Process children recursively
+      const children = ((childrenMap.get(node.nodeId) ?? []) as string[]).flatMap(childId => {
+        const childNode = nodeMap.get(childId);
+        return childNode ? processNode(childNode) : [];
+      });
+      if (!processed) {
+        return children;
+      }
+      if (children.length > 0) {
+        processed.children = children;
+      }
+      return [processed];
     };
 
     // Find root node (no parent)
@@ -386,7 +1261,10 @@ export class ReactSession {
       return null;
     }
 
-    const root = processNode(rootNode);
+    const [root] = processNode(rootNode);
+    if (!root) {
+      return null;
+    }
 
     return {
       root,
@@ -394,12 +1272,32 @@ export class ReactSession {
     };
   }
 
-  async getComponentMap(verbose = true, includeState = false): Promise<string | null> {
+  /**
+   * Builds the component map either as the box-drawing text tree or, with
+   * `format: 'json'`, as the same tree serialized as nested
+   * `ComponentMapNode`s. `root` limits the map to one subtree; `maxDepth` and
+   * `maxLines` cut it down further, leaving `elidedChildren` markers. The
+   * tree itself is returned next to the output so it can be compared later.
+   */
+  async getComponentMap(
+    options: ComponentMapOptions = {},
+  ): Promise<{output: string; map?: ComponentMap} | null> {
+    const {verbose = true, includeState = false, format = 'text', root} = options;
+    const started = performance.now();
+
     // Ensure React DevTools backend is injected before accessing React internals
-    await this.ensureBackendInjected();
+    await this.#ensurePageAgent();
+    await this.#ensureComponentSources();
+
+    let scope: {id?: string; name?: string} | null = null;
+    if (root?.id || root?.backendDOMNodeId !== undefined) {
+      scope = {id: await this.resolveComponentId(root)};
+    } else if (root?.name) {
+      scope = {name: root.name};
+    }
 
     // Get accessibility snapshot with backendDOMNodeId for correlation
-    const snapshot = await this.takeSnapshot(verbose);
+    const snapshot = await this.takeSnapshot(verbose, 'map');
     if (!snapshot) {
       return null;
     }
@@ -458,37 +1356,47 @@ export class ReactSession {
       return !skipRoles.has(role) && (semanticRoles.has(role) || role.length > 0);
     };
 
-    // Inject tracking attributes into DOM elements via CDP
-    const client = (this.#page as any)._client();
-    for (const [backendId, axInfo] of axNodeMap.entries()) {
-      // Skip non-semantic nodes early to reduce CDP calls
-      if (!isSemanticOrInteractive(axInfo.role)) {
-        continue;
-      }
+    const snapshotDone = performance.now();
 
-      try {
-        const {object} = await client.send('DOM.resolveNode', {backendNodeId: backendId});
-
-        await client.send('Runtime.callFunctionOn', {
-          objectId: object.objectId,
-          functionDeclaration: `function(backendId, role, name) {
-            if (this.setAttribute) {
-              this.setAttribute('data-ax-backend-id', backendId);
-              this.__axRole = role;
-              this.__axName = name;
-            }
-          }`,
-          arguments: [
-            {value: backendId},
-            {value: axInfo.role || ''},
-            {value: axInfo.name || ''}
-          ]
-        });
-      } catch (e) {
-        // Some nodes might not be resolvable, skip them
-        continue;
-      }
+    // Hand the backend ids of semantic DOM elements to the page agent, which
+    // keeps them in a WeakMap so the app DOM is never modified. One
+    // DOM.getDocument describes every element with its backend id, and the
+    // page finds the same elements by position in a single pass; role and
+    // name are looked up from the accessibility map in the page.
+    const client = (this.#page as any)._client();
+    const semanticBackendIds = new Set(
+      [...axNodeMap.entries()]
+        .filter(([, axInfo]) => isSemanticOrInteractive(axInfo.role))
+        .map(([backendId]) => backendId),
+    );
+    let taggedNodes = 0;
+    if (semanticBackendIds.size > 0) {
+      const {root: documentNode} = await client.send('DOM.getDocument', {depth: -1, pierce: true});
+      const locations: BackendNodeLocation[] = [];
+      const locate = (node: any, path: number[]) => {
+        if (semanticBackendIds.has(node.backendNodeId)) {
+          locations.push({backendNodeId: node.backendNodeId, nodeName: node.nodeName, path});
+        }
+        // CDP leaves out whitespace text, so only element positions match
+        // the page. Frame documents live in other JS worlds and are skipped.
+        let idx = 0;
+        for (const child of node.children ?? []) {
+          if (child.nodeType === 1) {
+            locate(child, [...path, idx++]);
+          }
+        }
+        const shadowRoot = node.shadowRoots?.find((shadow: any) => shadow.shadowRootType === 'open');
+        if (shadowRoot) {
+          locate(shadowRoot, [...path, -1]);
+        }
+      };
+      locate(documentNode, []);
+      taggedNodes = await this.#page.evaluate(locations => {
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
+        return agent.recordBackendNodeIds(locations);
+      }, locations);
     }
+    const taggingDone = performance.now();
 
     // Convert maps to plain objects for passing to page context
     const axNodeMapObj = Object.fromEntries(axNodeMap);
@@ -496,8 +1404,14 @@ export class ReactSession {
 
     // Walk the React Fiber tree and build component tree with accessibility info
     const result = await this.#page.evaluate(
-      (includeStateArg: boolean, axNodeMapObj: any, a11yHierarchyObj: any) => {
+      (
+        includeStateArg: boolean,
+        axNodeMapObj: any,
+        a11yHierarchyObj: any,
+        scopeArg: {id?: string; name?: string} | null,
+      ) => {
         const hook = (globalThis as any).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+        const agent = (globalThis as any).__REACT_DEVTOOLS_MCP__ as PageAgent;
 
         if (!hook || !hook.renderers || !hook.getFiberRoots) {
           return {error: 'React DevTools hook not found or no renderers'};
@@ -532,24 +1446,7 @@ export class ReactSession {
         };
 
         // Helper to extract source location
-        const extractSource = (fiber: any) => {
-          const props = fiber.memoizedProps;
-          if (!props) return null;
-
-          const fileName = props['data-inspector-relative-path'];
-          const lineNumber = props['data-inspector-line'];
-          const columnNumber = props['data-inspector-column'];
-
-          if (fileName || lineNumber || columnNumber) {
-            return {
-              fileName: fileName || undefined,
-              lineNumber: lineNumber ? parseInt(lineNumber, 10) : undefined,
-              columnNumber: columnNumber ? parseInt(columnNumber, 10) : undefined,
-            };
-          }
-
-          return null;
-        };
+        const extractSource = (fiber: any) => agent.extractSource(fiber);
 
         // Helper to safe serialize state
         const safeSerialize = (obj: any, maxDepth = 2, seen = new WeakSet()): any => {
@@ -577,13 +1474,11 @@ export class ReactSession {
         const getA11yInfo = (fiber: any): {role: string; name: string; backendId: string} | null => {
           // For host components (DOM elements), stateNode is the DOM element
           if (fiber.tag === 5 && fiber.stateNode) {
-            const element = fiber.stateNode;
-            const role = element.__axRole;
-            const name = element.__axName;
-            const backendId = element.getAttribute('data-ax-backend-id');
+            const backendId = agent.getBackendNodeId(fiber.stateNode);
+            const axInfo = backendId !== undefined ? axNodeMapObj[backendId] : null;
 
-            if (role || name || backendId) {
-              return {role, name, backendId};
+            if (axInfo) {
+              return {role: axInfo.role || '', name: axInfo.name || '', backendId: String(backendId)};
             }
           }
 
@@ -622,20 +1517,51 @@ export class ReactSession {
           return !skipRoles.has(role) && (semanticRoles.has(role) || role.length > 0);
         };
 
+        const BOUNDARY_LABELS: Record<string, string> = {
+          resolved: 'resolved',
+          fallback: 'showing fallback',
+          dehydrated: 'not hydrated yet',
+          pending: 'loading',
+          rejected: 'failed to load',
+          hidden: 'hidden',
+        };
+
         // Build set of backendIds that have React components
         const backendIdsWithComponents = new Set<number>();
 
-        // Walk fiber tree depth-first and collect components
-        const lines: string[] = [];
+        // Summarizes props for the JSON tree with the same filter as the text line
+        const summarizeProps = (props: any): Record<string, unknown> | undefined => {
+          if (!props || typeof props !== 'object') return undefined;
+          const summary: Record<string, unknown> = {};
+          for (const key of Object.keys(props)) {
+            if (
+              key.startsWith('__react') ||
+              key.startsWith('data-inspector') ||
+              key.startsWith('data-function') ||
+              key === 'children'
+            ) {
+              continue;
+            }
+            summary[key] = agent.safeSerialize(props[key], 1);
+          }
+          return summary;
+        };
+
+        // Walk fiber tree depth-first and collect components into a tree of
+        // nodes. Each node carries its text label so the text tree can be
+        // rendered after budgets are applied.
         const processedFibers = new WeakSet();
 
-        const walkFiber = (fiber: any, depth: number, prefix: string, isLast: boolean) => {
+        const walkFiber = (fiber: any, siblings: MapNodeWithLabel[]) => {
           if (!fiber || processedFibers.has(fiber)) return;
           processedFibers.add(fiber);
 
           // Check if this is an authored component (not a host element)
           const isComponent = [0, 1, 11, 15].includes(fiber.tag);
           const isHostElement = fiber.tag === 5; // Host component (div, button, etc.)
+          // Suspense boundaries, lazy components still loading and Offscreen
+          // trees (kept hidden while a fallback shows)
+          const boundaryState = agent.getBoundaryState(fiber);
 
           if (isComponent) {
             const name = getComponentName(fiber);
@@ -647,8 +1573,7 @@ export class ReactSession {
               backendIdsWithComponents.add(parseInt(a11yInfo.backendId, 10));
             }
 
-            let line = prefix;
-            line += name;
+            let line = name;
 
             // Add props summary if available
             if (fiber.memoizedProps) {
@@ -685,8 +1610,24 @@ export class ReactSession {
               }
             }
 
-            // Add state if requested and available
-            if (includeStateArg && fiber.memoizedState) {
+            // Add state if requested and available. Function components get
+            // their hooks instead of the raw hook list; replaying every
+            // render function in the map would re-run user code, so custom
+            // hook names are left to get_component.
+            const hooks = includeStateArg ? agent.inspectHooks(fiber, {replay: false}) : null;
+            if (hooks) {
+              if (hooks.length > 0) {
+                const hookParts = hooks.map(hook => {
+                  const kind = [...(hook.path ?? []), hook.kind].join('.');
+                  const valueStr = JSON.stringify(hook.value) ?? 'undefined';
+                  if (valueStr.length <= 20) {
+                    return `${kind}=${valueStr}`;
+                  }
+                  return `${kind}=${Array.isArray(hook.value) ? '[...]' : typeof hook.value === 'object' ? '{...}' : valueStr.slice(0, 20) + '...'}`;
+                });
+                line += ` hooks=[${hookParts.join(', ')}]`;
+              }
+            } else if (includeStateArg && fiber.memoizedState) {
               const state = safeSerialize(fiber.memoizedState, 1);
               const stateStr = JSON.stringify(state);
               if (stateStr.length < 50) {
@@ -716,10 +1657,25 @@ export class ReactSession {
               }
             }
 
-            lines.push(line);
-
-            // Update prefix for children
-            const childPrefix = prefix.replace(/├─/g, '│ ').replace(/└─/g, '  ');
+            const node: MapNodeWithLabel = {
+              kind: 'component',
+              name,
+              type: agent.getComponentType(fiber),
+              key: fiber.key,
+              props: summarizeProps(fiber.memoizedProps),
+              ...(hooks
+                ? {hooks}
+                : includeStateArg && fiber.memoizedState
+                  ? {state: safeSerialize(fiber.memoizedState, 1)}
+                  : {}),
+              ...(a11yInfo?.role && {role: a11yInfo.role}),
+              ...(a11yInfo?.name && {accessibleName: a11yInfo.name}),
+              ...(a11yInfo?.backendId && {backendDOMNodeId: parseInt(a11yInfo.backendId, 10)}),
+              ...(source && {source}),
+              children: [],
+              label: line,
+            };
+            siblings.push(node);
 
             // Insert accessibility-only child nodes
             if (a11yInfo && a11yInfo.backendId) {
@@ -732,34 +1688,32 @@ export class ReactSession {
                 return childAxInfo && !backendIdsWithComponents.has(childId) && isSemanticOrInteractive(childAxInfo.role);
               });
 
-              // Display a11y-only children
-              for (let i = 0; i < a11yOnlyChildren.length; i++) {
-                const childId = a11yOnlyChildren[i];
+              for (const childId of a11yOnlyChildren) {
                 const childAxInfo = axNodeMapObj[childId];
                 if (childAxInfo) {
                   const ariaParts: string[] = [];
                   if (childAxInfo.role) ariaParts.push(`role="${childAxInfo.role}"`);
                   if (childAxInfo.name) ariaParts.push(`name="${childAxInfo.name}"`);
 
-                  const childLine = childPrefix + '├─ ' + `[${ariaParts.join(' ')}]`;
-                  lines.push(childLine);
+                  node.children.push({
+                    kind: 'a11y',
+                    name: childAxInfo.role || 'unknown',
+                    ...(childAxInfo.role && {role: childAxInfo.role}),
+                    ...(childAxInfo.name && {accessibleName: childAxInfo.name}),
+                    backendDOMNodeId: Number(childId),
+                    children: [],
+                    label: `[${ariaParts.join(' ')}]`,
+                  });
                 }
               }
             }
 
             // Process React children
             let child = fiber.child;
-            const children: any[] = [];
             while (child) {
-              children.push(child);
+              walkFiber(child, node.children);
               child = child.sibling;
             }
-
-            children.forEach((child, idx) => {
-              const isLastChild = idx === children.length - 1;
-              const connector = isLastChild ? '└─' : '├─';
-              walkFiber(child, depth + 1, childPrefix + connector + ' ', isLastChild);
-            });
           } else if (isHostElement) {
             // For host elements, only show if they have semantic a11y info
             const a11yInfo = getA11yInfo(fiber);
@@ -767,7 +1721,7 @@ export class ReactSession {
             if (a11yInfo && a11yInfo.role && isSemanticOrInteractive(a11yInfo.role)) {
               // This host element has semantic a11y info, show it
               const name = fiber.type || 'HostElement';
-              let line = prefix + name;
+              let line = name;
 
               // Add ARIA attributes
               const ariaParts: string[] = [];
@@ -777,75 +1731,217 @@ export class ReactSession {
                 line += ` [${ariaParts.join(' ')}]`;
               }
 
-              lines.push(line);
+              const node: MapNodeWithLabel = {
+                kind: 'host',
+                name,
+                role: a11yInfo.role,
+                ...(a11yInfo.name && {accessibleName: a11yInfo.name}),
+                ...(a11yInfo.backendId && {backendDOMNodeId: parseInt(a11yInfo.backendId, 10)}),
+                children: [],
+                label: line,
+              };
+              siblings.push(node);
 
               // Process children
-              const childPrefix = prefix.replace(/├─/g, '│ ').replace(/└─/g, '  ');
               let child = fiber.child;
-              const children: any[] = [];
               while (child) {
-                children.push(child);
+                walkFiber(child, node.children);
                 child = child.sibling;
               }
-
-              children.forEach((child, idx) => {
-                const isLastChild = idx === children.length - 1;
-                const connector = isLastChild ? '└─' : '├─';
-                walkFiber(child, depth + 1, childPrefix + connector + ' ', isLastChild);
-              });
             } else {
               // No semantic a11y info, just traverse children without showing this element
               let child = fiber.child;
               while (child) {
-                walkFiber(child, depth, prefix, isLast);
+                walkFiber(child, siblings);
                 child = child.sibling;
               }
             }
+          } else if (boundaryState && boundaryState !== 'visible') {
+            const name = agent.getComponentName(fiber);
+            const node: MapNodeWithLabel = {
+              kind: 'boundary',
+              name,
+              type: agent.getComponentType(fiber),
+              boundaryState,
+              children: [],
+              label: `${name} [${BOUNDARY_LABELS[boundaryState] ?? boundaryState}]`,
+            };
+            siblings.push(node);
+
+            let child = fiber.child;
+            while (child) {
+              walkFiber(child, node.children);
+              child = child.sibling;
+            }
           } else {
             // Other fiber types, just traverse children
             let child = fiber.child;
             while (child) {
-              walkFiber(child, depth, prefix, isLast);
+              walkFiber(child, siblings);
               child = child.sibling;
             }
           }
         };
 
-        // Find all fiber roots and process them
-        let foundAny = false;
-        hook.renderers.forEach((_renderer: any, rendererId: number) => {
-          const roots = hook.getFiberRoots(rendererId);
-          if (!roots || roots.size === 0) return;
-
-          roots.forEach((root: any, idx: number) => {
-            if (!foundAny) {
-              lines.push('React Component Tree:');
-              lines.push('');
-              foundAny = true;
-            }
-
-            const fiber = root.current;
-            if (fiber) {
-              walkFiber(fiber, 0, '', true);
+        // Pick the fibers to start from: every fiber root, or the components
+        // matching the requested scope.
+        const startFibers: any[] = [];
+        if (scopeArg?.id) {
+          const fiber = agent.findFiberById(scopeArg.id);
+          if (!fiber) {
+            return {error: `Component ${scopeArg.id} not found`};
+          }
+          startFibers.push(fiber);
+        } else {
+          agent.forEachRoot(root => {
+            if (root?.current) {
+              startFibers.push(root.current);
             }
           });
-        });
+          if (startFibers.length === 0) {
+            return {error: 'No React roots found'};
+          }
+          if (scopeArg?.name) {
+            const matches: any[] = [];
+            const stack = [...startFibers].reverse();
+            while (stack.length) {
+              const fiber = stack.pop();
+              if (agent.isComponentFiber(fiber) && agent.getComponentName(fiber) === scopeArg.name) {
+                // Nested instances are already part of this subtree
+                matches.push(fiber);
+                continue;
+              }
+              const children: any[] = [];
+              let child = fiber.child;
+              while (child) {
+                children.push(child);
+                child = child.sibling;
+              }
+              stack.push(...children.reverse());
+            }
+            if (matches.length === 0) {
+              return {error: `No component named "${scopeArg.name}" found`};
+            }
+            startFibers.splice(0, startFibers.length, ...matches);
+          }
+        }
 
-        if (!foundAny) {
-          return {error: 'No React roots found'};
+        const roots: MapNodeWithLabel[] = [];
+        for (const fiber of startFibers) {
+          walkFiber(fiber, roots);
         }
 
-        return {lines};
+        return {roots};
       },
       includeState,
       axNodeMapObj,
       a11yHierarchyObj,
+      scope,
     );
 
     if ('error' in result) {
-      return `Error: ${result.error}`;
+      return {
+        output:
+          format === 'json' ? JSON.stringify({error: result.error}, null, 2) : `Error: ${result.error}`,
+      };
     }
 
-    return result.lines.join('\n');
+    const walkDone = performance.now();
+    const timing: ComponentMapTiming = {
+      snapshotMs: Math.round(snapshotDone - started),
+      taggingMs: Math.round(taggingDone - snapshotDone),
+      taggedNodes,
+      walkMs: Math.round(walkDone - taggingDone),
+      totalMs: Math.round(walkDone - started),
+    };
+    logger(
+      `getComponentMap took ${timing.totalMs}ms (snapshot ${timing.snapshotMs}ms, tagging ${timing.taggingMs}ms for ${taggedNodes} nodes, fiber walk ${timing.walkMs}ms)`,
+    );
+
+    const map = {...pruneComponentMap(result.roots, options), timing};
+    if (format === 'json') {
+      return {
+        output: JSON.stringify(map, (key, value) => (key === 'label' ? undefined : value), 2),
+        map,
+      };
+    }
+
+    const lines = [
+      scope ? `React Component Tree (subtree of ${map.roots[0]?.name ?? 'component'}):` : 'React Component Tree:',
+      '',
+    ];
+    appendTreeLines(map.roots, map.elidedRoots, '', true, lines);
+    lines.push('');
+    lines.push(
+      `Built in ${timing.totalMs}ms: snapshot ${timing.snapshotMs}ms, tagging ${timing.taggingMs}ms (${taggedNodes} nodes), fiber walk ${timing.walkMs}ms`,
+    );
+    return {output: lines.join('\n'), map};
+  }
+}
+
+type MapNodeWithLabel = ComponentMapNode & {
+  /** Text-tree line for this node, without the tree prefix. */
+  label: string;
+  children: MapNodeWithLabel[];
+};
+
+/**
+ * Applies the `maxDepth` and `maxLines` budgets in document order. Nodes that
+ * lose children record how many in `elidedChildren`.
+ */
+function pruneComponentMap(
+  roots: MapNodeWithLabel[],
+  budget: {maxDepth?: number; maxLines?: number},
+): ComponentMap & {roots: MapNodeWithLabel[]} {
+  let remaining = budget.maxLines ?? Infinity;
+  const prune = (nodes: MapNodeWithLabel[], depth: number): MapNodeWithLabel[] => {
+    const kept: MapNodeWithLabel[] = [];
+    for (const node of nodes) {
+      if (remaining <= 0) {
+        break;
+      }
+      remaining--;
+      const copy: MapNodeWithLabel = {...node, children: []};
+      if (node.children.length > 0) {
+        if (budget.maxDepth !== undefined && depth >= budget.maxDepth) {
+          copy.elidedChildren = node.children.length;
+        } else {
+          copy.children = prune(node.children, depth + 1);
+          if (copy.children.length < node.children.length) {
+            copy.elidedChildren = node.children.length - copy.children.length;
+          }
+        }
+      }
+      kept.push(copy);
+    }
+    return kept;
+  };
+  const kept = prune(roots, 0);
+  return {
+    roots: kept,
+    ...(kept.length < roots.length && {elidedRoots: roots.length - kept.length}),
+  };
+}
+
+function appendTreeLines(
+  nodes: MapNodeWithLabel[],
+  elided: number | undefined,
+  indent: string,
+  top: boolean,
+  lines: string[],
+): void {
+  nodes.forEach((node, idx) => {
+    const isLast = idx === nodes.length - 1 && !elided;
+    const connector = top ? '' : isLast ? '└─ ' : '├─ ';
+    lines.push(indent + connector + node.label);
+    const childIndent = top ? '' : indent + (isLast ? '   ' : '│  ');
+    appendTreeLines(node.children, node.elidedChildren, childIndent, false, lines);
+  });
+  if (elided) {
+    lines.push(
+      top
+        ? `… ${elided} more top-level ${elided === 1 ? 'node' : 'nodes'} elided`
+        : `${indent}└─ … ${elided} more ${elided === 1 ? 'child' : 'children'} elided`,
+    );
   }
 }
@@ -0,0 +1,345 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import {logger} from './logger.js';
+import type {Page} from './third_party/index.js';
+
+export interface SourceLocation {
+  fileName?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+}
+
+export interface SourceMapResolverOptions {
+  /** Local build directory searched for `.map` files before fetching them. */
+  sourceMapDir?: string;
+}
+
+/** [generatedColumn, sourceIndex, originalLine, originalColumn], all 0-based. */
+type Segment = [number, number, number, number];
+
+interface ParsedSourceMap {
+  sources: string[];
+  /** Segments per generated line, sorted by generated column. */
+  lines: Segment[][];
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((char, idx) => [char, idx]));
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid VLQ character "${char}"`);
+    }
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+    for (const raw of line.split(',')) {
+      if (!raw) continue;
+      const fields = decodeVlq(raw);
+      generatedColumn += fields[0];
+      if (fields.length < 4) continue;
+      sourceIndex += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+    }
+    segments.sort((a, b) => a[0] - b[0]);
+    lines.push(segments);
+  }
+  return lines;
+}
+
+function parseSourceMap(raw: any): ParsedSourceMap {
+  // Index maps stitch several maps together at line/column offsets.
+  if (Array.isArray(raw.sections)) {
+    const parsed: ParsedSourceMap = {sources: [], lines: []};
+    for (const section of raw.sections) {
+      if (!section.map) continue;
+      const sub = parseSourceMap(section.map);
+      const offset = parsed.sources.length;
+      parsed.sources.push(...sub.sources);
+      const {line: lineOffset = 0, column: columnOffset = 0} = section.offset ?? {};
+      sub.lines.forEach((segments, idx) => {
+        const target = (parsed.lines[lineOffset + idx] ??= []);
+        for (const [column, source, line, originalColumn] of segments) {
+          target.push([
+            idx === 0 ? column + columnOffset : column,
+            source + offset,
+            line,
+            originalColumn,
+          ]);
+        }
+        target.sort((a, b) => a[0] - b[0]);
+      });
+    }
+    return parsed;
+  }
+
+  const sourceRoot = typeof raw.sourceRoot === 'string' ? raw.sourceRoot : '';
+  const sources = (raw.sources ?? []).map((source: string | null) => {
+    if (!source) return '';
+    return sourceRoot && !/^[a-z][\w+.-]+:|^\//i.test(source)
+      ? `${sourceRoot.replace(/\/?$/, '/')}${source}`
+      : source;
+  });
+  return {sources, lines: decodeMappings(raw.mappings ?? '')};
+}
+
+/**
+ * Turns a source-map `sources` entry into the path shown to users, e.g.
+ * `webpack://app/./src/App.tsx` or `http://localhost:5173/src/App.tsx`
+ * become `src/App.tsx`. Absolute file system paths are kept as they are.
+ */
+function toDisplayPath(source: string, mapUrl: string): string {
+  const webpack = /^webpack:\/\/[^/]*\/(.*)$/.exec(source);
+  if (webpack) {
+    return webpack[1].replace(/^\.\//, '');
+  }
+  if (source.startsWith('file://')) {
+    return decodeURIComponent(new URL(source).pathname);
+  }
+  if (path.isAbsolute(source)) {
+    return source;
+  }
+  try {
+    const url = new URL(source, mapUrl);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return decodeURIComponent(url.pathname).replace(/^\/+/, '');
+    }
+    if (url.protocol === 'file:') {
+      return decodeURIComponent(url.pathname);
+    }
+  } catch {
+    // Not resolvable against the map URL; report it unchanged.
+  }
+  return source;
+}
+
+function decodeDataUrl(url: string): string | null {
+  const match = /^data:[^,]*?(;base64)?,(.*)$/s.exec(url);
+  if (!match) {
+    return null;
+  }
+  return match[1]
+    ? Buffer.from(match[2], 'base64').toString('utf8')
+    : decodeURIComponent(match[2]);
+}
+
+async function readStream(client: any, handle: string): Promise<string> {
+  const chunks: Buffer[] = [];
+  try {
+    for (;;) {
+      const {data, eof, base64Encoded} = await client.send('IO.read', {handle});
+      chunks.push(Buffer.from(data, base64Encoded ? 'base64' : 'utf8'));
+      if (eof) {
+        break;
+      }
+    }
+  } finally {
+    await client.send('IO.close', {handle}).catch(() => {});
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Translates positions in the scripts a page loaded (bundle chunks,
+ * dev-server modules) back to original file/line/column. Scripts are tracked
+ * through the debugger domain, maps are read from the configured build
+ * directory or loaded by the browser, and parsed maps are cached per
+ * script until the page navigates.
+ */
+export class SourceMapResolver {
+  #page: Page;
+  #sourceMapDir?: string;
+  #scriptUrls = new Map<string, string>();
+  #sourceMapUrls = new Map<string, string>();
+  #maps = new Map<string, Promise<{map: ParsedSourceMap; mapUrl: string} | null>>();
+  #listening = false;
+  #tracking: Promise<void> | null = null;
+
+  constructor(page: Page, options: SourceMapResolverOptions = {}) {
+    this.#page = page;
+    this.#sourceMapDir = options.sourceMapDir;
+  }
+
+  #ensureTracking(): Promise<void> {
+    const client = (this.#page as any)._client();
+    if (!this.#listening) {
+      this.#listening = true;
+      client.on(
+        'Debugger.scriptParsed',
+        (event: {scriptId: string; url: string; sourceMapURL?: string}) => {
+          if (!event.url) return;
+          this.#scriptUrls.set(event.scriptId, event.url);
+          if (event.sourceMapURL) {
+            this.#sourceMapUrls.set(event.url, event.sourceMapURL);
+          }
+        },
+      );
+      client.on('Runtime.executionContextsCleared', () => {
+        this.#scriptUrls.clear();
+        this.#sourceMapUrls.clear();
+        this.#maps.clear();
+      });
+    }
+    if (!this.#tracking) {
+      // Enabling the debugger replays scriptParsed for every loaded script.
+      // Pauses are skipped so `debugger` statements in the app keep running.
+      this.#tracking = (async () => {
+        await client.send('Debugger.enable');
+        await client.send('Debugger.setSkipAllPauses', {skip: true});
+      })();
+      this.#tracking.catch(() => {
+        this.#tracking = null;
+      });
+    }
+    return this.#tracking;
+  }
+
+  async getScriptUrl(scriptId: string): Promise<string | undefined> {
+    await this.#ensureTracking();
+    return this.#scriptUrls.get(scriptId);
+  }
+
+  /**
+   * Maps a 1-based position in a loaded script to its original source.
+   * Returns null when the script has no usable source map.
+   */
+  async resolve(location: SourceLocation): Promise<SourceLocation | null> {
+    const {fileName, lineNumber, columnNumber} = location;
+    if (!fileName || !lineNumber) {
+      return null;
+    }
+    const loaded = await this.#loadMap(fileName);
+    if (!loaded) {
+      return null;
+    }
+    const segments = loaded.map.lines[lineNumber - 1];
+    if (!segments?.length) {
+      return null;
+    }
+    // Last segment starting at or before the column.
+    const column = (columnNumber ?? 1) - 1;
+    let low = 0;
+    let high = segments.length - 1;
+    let found = segments[0];
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid][0] <= column) {
+        found = segments[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const source = loaded.map.sources[found[1]];
+    if (!source) {
+      return null;
+    }
+    return {
+      fileName: toDisplayPath(source, loaded.mapUrl),
+      lineNumber: found[2] + 1,
+      columnNumber: found[3] + 1,
+    };
+  }
+
+  #loadMap(scriptUrl: string): Promise<{map: ParsedSourceMap; mapUrl: string} | null> {
+    let cached = this.#maps.get(scriptUrl);
+    if (!cached) {
+      cached = this.#fetchMap(scriptUrl).catch(error => {
+        logger(`Failed to load source map for ${scriptUrl}: ${String(error)}`);
+        return null;
+      });
+      this.#maps.set(scriptUrl, cached);
+    }
+    return cached;
+  }
+
+  async #fetchMap(scriptUrl: string): Promise<{map: ParsedSourceMap; mapUrl: string} | null> {
+    await this.#ensureTracking();
+    let sourceMapUrl = this.#sourceMapUrls.get(scriptUrl);
+    if (!sourceMapUrl) {
+      // Not seen by the debugger (e.g. already unloaded); read the comment.
+      const script = await this.#fetchText(scriptUrl);
+      const match = script && /\/\/[#@] sourceMappingURL=(\S+)\s*$/.exec(script.trimEnd());
+      if (!match) {
+        return null;
+      }
+      sourceMapUrl = match[1];
+    }
+
+    if (sourceMapUrl.startsWith('data:')) {
+      const text = decodeDataUrl(sourceMapUrl);
+      return text ? {map: parseSourceMap(JSON.parse(text)), mapUrl: scriptUrl} : null;
+    }
+
+    const mapUrl = new URL(sourceMapUrl, scriptUrl).href;
+    const text = (await this.#readLocalMap(mapUrl)) ?? (await this.#fetchText(mapUrl));
+    return text ? {map: parseSourceMap(JSON.parse(text)), mapUrl} : null;
+  }
+
+  async #readLocalMap(mapUrl: string): Promise<string | null> {
+    if (!this.#sourceMapDir) {
+      return null;
+    }
+    // Only the file name is used, so the lookup stays inside the directory.
+    const fileName = path.basename(new URL(mapUrl).pathname);
+    if (!fileName) {
+      return null;
+    }
+    try {
+      return await fs.readFile(path.join(this.#sourceMapDir, fileName), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  // Loaded by the browser for the main frame rather than with the page's
+  // fetch, so the request skips the app's wrappers, the network log and the
+  // page's CSP, while still sending the page's cookies.
+  async #fetchText(url: string): Promise<string | null> {
+    const client = (this.#page as any)._client();
+    try {
+      const {frameTree} = await client.send('Page.getFrameTree');
+      const {resource} = await client.send('Network.loadNetworkResource', {
+        frameId: frameTree.frame.id,
+        url,
+        options: {disableCache: false, includeCredentials: true},
+      });
+      const ok = resource.success && (resource.httpStatusCode ?? 200) < 400;
+      if (!ok || !resource.stream) {
+        if (resource.stream) {
+          await client.send('IO.close', {handle: resource.stream}).catch(() => {});
+        }
+        return null;
+      }
+      return await readStream(client, resource.stream);
+    } catch (error) {
+      logger(`Failed to load ${url}: ${String(error)}`);
+      return null;
+    }
+  }
+}
@@ -10,6 +10,8 @@ export interface Args {
   channel?: Channel;
   isolated: boolean;
   viewport?: {width: number; height: number};
+  sourceMapDir?: string;
+  projectRoot?: string;
 }
 
 export function parseArguments() {
@@ -45,6 +47,14 @@ export function parseArguments() {
       type: 'string',
       describe: 'Viewport as WIDTHxHEIGHT, e.g. 1280x720',
     })
+    .option('sourceMapDir', {
+      type: 'string',
+      describe: 'Local build directory to read source maps from before loading them from the server',
+    })
+    .option('projectRoot', {
+      type: 'string',
+      describe: 'Project directory component source files may be read from. Without it, get_component_source returns only the source location',
+    })
     .help()
     .parseSync();
 
@@ -55,6 +65,8 @@ export function parseArguments() {
     executablePath: argv.executablePath,
     channel: argv.channel as Channel,
     isolated: argv.isolated,
+    sourceMapDir: argv.sourceMapDir,
+    projectRoot: argv.projectRoot,
   };
 
   if (argv.viewport) {
@@ -52,7 +52,10 @@ async function main() {
             isolated: args.isolated,
             viewport: args.viewport,
           });
-    context = await McpContext.from(browser);
+    context = await McpContext.from(browser, {
+      sourceMapDir: args.sourceMapDir,
+      projectRoot: args.projectRoot,
+    });
     return context;
   }
 
@@ -0,0 +1,2184 @@
+import type {
+  BoundaryState,
+  ChangeDescription,
+  ComponentContexts,
+  ComponentDetails,
+  ComponentEdit,
+  ComponentNode,
+  ContextProviderInfo,
+  HighlightResult,
+  HookInfo,
+  HydrationMismatch,
+  HydrationReport,
+  ListComponentsOptions,
+  NetworkRequestEntry,
+  ProfiledRender,
+  ProfilingSession,
+  ReactErrorEntry,
+  RenderChange,
+  RenderExplanation,
+  SuspenseBoundaryInfo,
+} from './tools/ToolDefinition.js';
+
+/**
+ * Where an element sits in the document, as positions among element
+ * children from `document`; -1 steps into an open shadow root.
+ */
+export interface BackendNodeLocation {
+  backendNodeId: number;
+  nodeName: string;
+  path: number[];
+}
+
+/** A fetch or XHR call seen by the page agent, in call order. */
+export interface NetworkInitiator {
+  method: string;
+  url: string;
+  component?: NetworkRequestEntry['component'];
+}
+
+/**
+ * Shape of the helper object installed on the page by `installPageAgent`.
+ * Page functions passed to `page.evaluate` read it from
+ * `globalThis.__REACT_DEVTOOLS_MCP__` and cast it to this type.
+ */
+export interface PageAgent {
+  getComponentName(fiber: any): string;
+  getComponentType(fiber: any): string;
+  isComponentFiber(fiber: any): boolean;
+  /** State of a Suspense, Lazy or Offscreen fiber; null for other fibers. */
+  getBoundaryState(fiber: any): BoundaryState | null;
+  extractSource(fiber: any): ComponentDetails['source'] | null;
+  /** Component functions with no source yet; each is returned only once. */
+  collectFunctionsWithoutSource(): any[];
+  recordFunctionSources(
+    functions: any[],
+    sources: Array<ComponentDetails['source'] | null>,
+  ): void;
+  /** Script locations (owner stacks, function locations) not yet source mapped. */
+  collectUnresolvedSources(): NonNullable<ComponentDetails['source']>[];
+  recordResolvedSources(
+    entries: Array<[NonNullable<ComponentDetails['source']>, ComponentDetails['source'] | null]>,
+  ): void;
+  safeSerialize(obj: any, maxDepth?: number): any;
+  getFiberId(fiber: any): string;
+  getFiberFromElement(element: any): any;
+  getNearestComponentFiber(fiber: any): any;
+  findFiberById(id: string): any;
+  forEachRoot(
+    callback: (root: any, rendererId: number, rootIndex: number) => void,
+    filter?: {rendererId?: number; rootIndex?: number},
+  ): void;
+  listComponents(options: ListComponentsOptions): ComponentNode[];
+  inspectComponent(id: string): ComponentDetails | null;
+  /** Hooks of a function component; without replay, custom hook names are not reported. */
+  inspectHooks(fiber: any, options?: {replay?: boolean}): HookInfo[] | null;
+  getComponentIdForElement(element: any): {id?: string; error?: string};
+  onCommit(listener: (rendererId: number, root: any) => void): () => void;
+  waitForCommit(timeoutMs: number): Promise<boolean>;
+  getChangeDescription(fiber: any): ChangeDescription;
+  explainRender(id: string): RenderExplanation | null;
+  /** Providers in a component's subtree, or on every root without an id; null if not found. */
+  listContextProviders(id?: string): ContextProviderInfo[] | null;
+  getComponentContexts(id: string): ComponentContexts | null;
+  /** Suspense boundaries that show a fallback or wait on a suspended update. */
+  listSuspenseBoundaries(includeResolved: boolean): SuspenseBoundaryInfo[];
+  /** Render errors React reported since the page loaded, or since the last clear. */
+  getReactErrors(clear: boolean): ReactErrorEntry[];
+  /** Records the render error a `console.error` or `console.warn` call reports, if any. */
+  inspectConsoleReport(args: unknown[]): void;
+  /**
+   * Compares the HTML the server sent for this document with the DOM each
+   * React root had right after its hydration commit.
+   */
+  compareServerHtml(
+    html: string,
+    maxMismatches: number,
+  ): Omit<HydrationReport, 'url' | 'warnings'>;
+  /** Fetch and XHR calls since the last call, with the component that made them. */
+  takeNetworkInitiators(): NetworkInitiator[];
+  /** Starts recording every commit under `key`; false if already recording. */
+  startRecording(key: string): boolean;
+  stopRecording(key: string): ProfilingSession | null;
+  applyEdit(id: string, edit: ComponentEdit): string | null;
+  /**
+   * Forces the Suspense boundary at or above a component into its fallback,
+   * or the error boundary at or above it into its error state; `force: false`
+   * releases it.
+   */
+  overrideBoundary(
+    id: string,
+    kind: 'suspense' | 'error',
+    force: boolean,
+  ): {boundary?: {id: string; name: string}; error?: string};
+  getHostNodes(fiber: any): Element[];
+  /**
+   * Finds elements by their location and remembers their CDP backend node
+   * ids; returns how many were found.
+   */
+  recordBackendNodeIds(locations: BackendNodeLocation[]): number;
+  getBackendNodeId(element: any): number | undefined;
+  /** Keeps a node resolved through CDP until `takeHeldNode` picks it up by token. */
+  holdNode(node: any): number;
+  takeHeldNode(token: number): Element | null;
+  highlight(id: string, durationMs: number): HighlightResult;
+}
+
+/**
+ * Installs the shared fiber helpers on the page. This function is serialized
+ * by Puppeteer, so it must stay self-contained (no imports or outer bindings).
+ * It is registered with `evaluateOnNewDocument` and re-run before each
+ * inspection call; repeated calls are no-ops.
+ */
+export function installPageAgent(): void {
+  const global = globalThis as any;
+  if (global.__REACT_DEVTOOLS_MCP__) {
+    return;
+  }
+
+  // FunctionComponent, ClassComponent, ForwardRef, MemoComponent, SimpleMemoComponent
+  const COMPONENT_TAGS = new Set([0, 1, 11, 14, 15]);
+  const TYPE_NAMES: Record<number, string> = {
+    0: 'FunctionComponent',
+    1: 'ClassComponent',
+    5: 'HostComponent',
+    9: 'ContextConsumer',
+    10: 'ContextProvider',
+    11: 'ForwardRef',
+    13: 'SuspenseComponent',
+    14: 'MemoComponent',
+    15: 'SimpleMemoComponent',
+    16: 'LazyComponent',
+    22: 'OffscreenComponent',
+  };
+
+  const fiberIds = new WeakMap<object, string>();
+  let nextFiberId = 1;
+  // Backend node ids handed over by the server, kept off the DOM itself.
+  const backendNodeIds = new WeakMap<object, number>();
+
+  const getHook = () => global.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+
+  const getContextName = (context: any): string => {
+    return context?.displayName || 'Context';
+  };
+
+  // Providers are `{_context}` objects before React 19 and the context itself
+  // after; consumers are the context before React 19 and `{_context}` after.
+  const getFiberContext = (fiber: any): any => {
+    return fiber?.type?._context ?? fiber?.type;
+  };
+
+  const getComponentName = (fiber: any): string => {
+    if (!fiber) return 'Unknown';
+    const type = fiber.type;
+    switch (fiber.tag) {
+      case 0:
+      case 1:
+      case 15:
+        return type?.displayName || type?.name || 'Anonymous';
+      case 11:
+        return (
+          type?.displayName ||
+          type?.render?.displayName ||
+          type?.render?.name ||
+          'ForwardRef'
+        );
+      case 14: {
+        const inner = type?.type?.displayName || type?.type?.name;
+        return type?.displayName || (inner ? `Memo(${inner})` : 'Memo');
+      }
+      case 5:
+        return typeof type === 'string' ? type : 'HostComponent';
+      case 9:
+        return `${getContextName(getFiberContext(fiber))}.Consumer`;
+      case 10:
+        return `${getContextName(getFiberContext(fiber))}.Provider`;
+      case 13:
+        return 'Suspense';
+      case 16:
+        return 'Lazy';
+      case 22:
+        return 'Offscreen';
+      default:
+        return 'Unknown';
+    }
+  };
+
+  const getComponentType = (fiber: any): string => {
+    return TYPE_NAMES[fiber?.tag] || `UnknownTag(${fiber?.tag})`;
+  };
+
+  const isComponentFiber = (fiber: any): boolean => {
+    return Boolean(fiber) && COMPONENT_TAGS.has(fiber.tag);
+  };
+
+  // Lazy payload `_status` values.
+  const LAZY_STATES: Record<number, BoundaryState> = {
+    [-1]: 'pending',
+    0: 'pending',
+    1: 'resolved',
+    2: 'rejected',
+  };
+
+  const getBoundaryState = (fiber: any): BoundaryState | null => {
+    switch (fiber?.tag) {
+      case 13: {
+        const state = fiber.memoizedState;
+        if (!state) return 'resolved';
+        return state.dehydrated ? 'dehydrated' : 'fallback';
+      }
+      case 16:
+        return LAZY_STATES[fiber.elementType?._payload?._status] ?? 'pending';
+      case 22:
+        return fiber.memoizedState ? 'hidden' : 'visible';
+      default:
+        return null;
+    }
+  };
+
+  type SourceLocation = NonNullable<ComponentDetails['source']>;
+
+  // Locations of component functions, filled in by the server from CDP
+  // function locations for components without any other source.
+  const functionSources = new WeakMap<object, SourceLocation>();
+  const functionSourcesRequested = new WeakSet<object>();
+
+  // The function React calls to render a component fiber.
+  const getComponentFunction = (fiber: any): any => {
+    let type = fiber?.type;
+    if (fiber?.tag === 14) type = type?.type;
+    if (type && typeof type === 'object' && typeof type.render === 'function') {
+      type = type.render;
+    }
+    return typeof type === 'function' ? type : null;
+  };
+
+  // Owner stacks start with React's own element factory (jsxDEV,
+  // createElement) before reaching the component that rendered the element.
+  const REACT_FRAME_NAME = /(?:^|\.)(?:jsxs?|jsxDEV|jsxWithValidation\w*|createElement|cloneElement)$/;
+  const REACT_FRAME_URL = /[/\\]react[/\\]|react[-_]jsx-(?:dev-)?runtime/;
+
+  const parseStackLocation = (stack: unknown): SourceLocation | null => {
+    if (typeof stack !== 'string') return null;
+    for (const line of stack.split('\n').slice(1)) {
+      // V8: "at fn (url:line:col)" or "at url:line:col"
+      const match = /^\s*at (?:(?:async |new )?(\S+) \()?(.+?):(\d+):(\d+)\)?$/.exec(line);
+      if (!match) continue;
+      const [, functionName, url, lineNumber, columnNumber] = match;
+      if (REACT_FRAME_NAME.test(functionName ?? '') || REACT_FRAME_URL.test(url)) continue;
+      return {
+        fileName: url,
+        lineNumber: parseInt(lineNumber, 10),
+        columnNumber: parseInt(columnNumber, 10),
+      };
+    }
+    return null;
+  };
+
+  // Original locations for positions in loaded scripts, keyed by
+  // "url:line:column" and filled in by the server from source maps.
+  const resolvedSources = new Map<string, SourceLocation>();
+  const resolvedSourcesRequested = new Set<string>();
+
+  const getSourceKey = (source: SourceLocation): string =>
+    `${source.fileName}:${source.lineNumber}:${source.columnNumber}`;
+
+  // Owner stacks and function locations point at script URLs rather than
+  // files on disk.
+  const isScriptLocation = (source: SourceLocation): boolean =>
+    /^[a-z][\w+.-]+:/i.test(source.fileName ?? '');
+
+  // Fallback chain: data-inspector props from the Babel/Vite plugin, the JSX
+  // source React <=18 records in development, the owner stack React 19
+  // records, then the location of the component function itself.
+  const findSource = (fiber: any): SourceLocation | null => {
+    const props = fiber?.memoizedProps;
+    if (props && typeof props === 'object') {
+      const fileName = props['data-inspector-relative-path'];
+      const lineNumber = props['data-inspector-line'];
+      const columnNumber = props['data-inspector-column'];
+
+      if (fileName || lineNumber || columnNumber) {
+        return {
+          fileName: fileName || undefined,
+          lineNumber: lineNumber ? parseInt(lineNumber, 10) : undefined,
+          columnNumber: columnNumber ? parseInt(columnNumber, 10) : undefined,
+        };
+      }
+    }
+
+    const debugSource = fiber?._debugSource;
+    if (debugSource?.fileName) {
+      return {
+        fileName: debugSource.fileName,
+        lineNumber: debugSource.lineNumber,
+        columnNumber: debugSource.columnNumber,
+      };
+    }
+
+    const debugStack = fiber?._debugStack;
+    const stackLocation = parseStackLocation(
+      typeof debugStack === 'string' ? debugStack : debugStack?.stack,
+    );
+    if (stackLocation) return stackLocation;
+
+    const fn = getComponentFunction(fiber);
+    return (fn && functionSources.get(fn)) ?? null;
+  };
+
+  const extractSource = (fiber: any): SourceLocation | null => {
+    const source = findSource(fiber);
+    if (!source) return null;
+    return resolvedSources.get(getSourceKey(source)) ?? source;
+  };
+
+  const forEachComponentFiber = (callback: (fiber: any) => void) => {
+    forEachRoot(root => {
+      const stack = [root?.current];
+      while (stack.length) {
+        const node = stack.pop();
+        if (!node) continue;
+        if (isComponentFiber(node)) callback(node);
+        if (node.sibling) stack.push(node.sibling);
+        if (node.child) stack.push(node.child);
+      }
+    });
+  };
+
+  // Component functions that still need a location from the server. Each
+  // function is handed out once.
+  const collectFunctionsWithoutSource = (): any[] => {
+    const functions: any[] = [];
+    forEachComponentFiber(fiber => {
+      const fn = getComponentFunction(fiber);
+      if (fn && !functionSourcesRequested.has(fn) && !findSource(fiber)) {
+        functionSourcesRequested.add(fn);
+        functions.push(fn);
+      }
+    });
+    return functions;
+  };
+
+  const recordFunctionSources = (functions: any[], sources: Array<SourceLocation | null>) => {
+    functions.forEach((fn, idx) => {
+      const source = sources[idx];
+      if (fn && source) {
+        functionSources.set(fn, source);
+      }
+    });
+  };
+
+  // Script locations still to be mapped to original sources. Each location is
+  // handed out once.
+  const collectUnresolvedSources = (): SourceLocation[] => {
+    const sources: SourceLocation[] = [];
+    const collect = (source: SourceLocation | null | undefined) => {
+      if (!source || !isScriptLocation(source)) return;
+      const key = getSourceKey(source);
+      if (!resolvedSourcesRequested.has(key)) {
+        resolvedSourcesRequested.add(key);
+        sources.push(source);
+      }
+    };
+    forEachComponentFiber(fiber => collect(findSource(fiber)));
+    reactErrors.forEach(entry => collect(entry.source));
+    return sources;
+  };
+
+  const recordResolvedSources = (entries: Array<[SourceLocation, SourceLocation | null]>) => {
+    for (const [generated, original] of entries) {
+      if (original) {
+        resolvedSources.set(getSourceKey(generated), original);
+      }
+    }
+  };
+
+  const safeSerialize = (obj: any, maxDepth = 3, seen = new WeakSet()): any => {
+    if (obj === null || obj === undefined) return obj;
+    if (typeof obj === 'function') return `[Function: ${obj.name || 'anonymous'}]`;
+    if (typeof obj === 'symbol') return obj.toString();
+    if (typeof obj === 'bigint') return `${obj}n`;
+    if (typeof obj !== 'object') return obj;
+    if (seen.has(obj)) return '[Circular]';
+    seen.add(obj);
+    if (maxDepth <= 0) return '[Max Depth]';
+    if (Array.isArray(obj)) {
+      return obj.slice(0, 100).map(item => safeSerialize(item, maxDepth - 1, seen));
+    }
+    if (obj.$$typeof) return '[React Element]';
+    if (typeof Node !== 'undefined' && obj instanceof Node) return '[DOM Node]';
+
+    const result: any = {};
+    const entries = Object.entries(obj).slice(0, 50);
+    for (const [key, value] of entries) {
+      if (key.startsWith('__react')) continue;
+      result[key] = safeSerialize(value, maxDepth - 1, seen);
+    }
+    return result;
+  };
+
+  // Ids are shared between a fiber and its alternate so they survive commits.
+  const getFiberId = (fiber: any): string => {
+    let id = fiberIds.get(fiber);
+    if (!id && fiber.alternate) {
+      id = fiberIds.get(fiber.alternate);
+    }
+    if (!id) {
+      id = String(nextFiberId++);
+    }
+    fiberIds.set(fiber, id);
+    if (fiber.alternate) {
+      fiberIds.set(fiber.alternate, id);
+    }
+    return id;
+  };
+
+  const getFiberFromElement = (element: any): any => {
+    if (!element) return null;
+    const fiberKey = Object.keys(element).find(k => k.startsWith('__reactFiber'));
+    return fiberKey ? element[fiberKey] : null;
+  };
+
+  const getNearestComponentFiber = (fiber: any): any => {
+    let current = fiber;
+    while (current) {
+      if (isComponentFiber(current)) return current;
+      current = current.return;
+    }
+    return null;
+  };
+
+  const forEachRoot = (
+    callback: (root: any, rendererId: number, rootIndex: number) => void,
+    filter: {rendererId?: number; rootIndex?: number} = {},
+  ) => {
+    const hook = getHook();
+    if (!hook || !hook.renderers || !hook.getFiberRoots) return;
+    hook.renderers.forEach((_renderer: any, rendererId: number) => {
+      if (filter.rendererId !== undefined && filter.rendererId !== rendererId) return;
+      const roots = hook.getFiberRoots(rendererId);
+      if (!roots) return;
+      let rootIndex = 0;
+      roots.forEach((root: any) => {
+        if (filter.rootIndex === undefined || filter.rootIndex === rootIndex) {
+          callback(root, rendererId, rootIndex);
+        }
+        rootIndex++;
+      });
+    });
+  };
+
+  const findFiberById = (id: string): any => {
+    let found: any = null;
+    forEachRoot(root => {
+      const stack = [root?.current];
+      while (!found && stack.length) {
+        const node = stack.pop();
+        if (!node) continue;
+        if (
+          (isComponentFiber(node) || node.tag === 13) &&
+          (fiberIds.get(node) === id || (node.alternate && fiberIds.get(node.alternate) === id))
+        ) {
+          found = node;
+          break;
+        }
+        if (node.sibling) stack.push(node.sibling);
+        if (node.child) stack.push(node.child);
+      }
+    });
+    return found;
+  };
+
+  const getComponentPath = (fiber: any): string => {
+    const names: string[] = [];
+    let current = fiber;
+    while (current) {
+      if (isComponentFiber(current)) {
+        names.unshift(getComponentName(current));
+      }
+      current = current.return;
+    }
+    return names.join(' > ');
+  };
+
+  const listComponents = (options: ListComponentsOptions): ComponentNode[] => {
+    const maxDepth = options.depth ?? 3;
+    const maxNodes = options.maxNodes ?? 200;
+    const filter = options.nameFilter?.toLowerCase();
+    const nodes: ComponentNode[] = [];
+
+    const walk = (fiber: any, depth: number, path: string[]) => {
+      let current = fiber;
+      while (current && nodes.length < maxNodes) {
+        if (isComponentFiber(current)) {
+          const name = getComponentName(current);
+          const childPath = [...path, name];
+          if (!filter || name.toLowerCase().includes(filter)) {
+            nodes.push({
+              id: getFiberId(current),
+              name,
+              type: getComponentType(current),
+              key: current.key,
+              depth,
+              path: childPath.join(' > '),
+            });
+          }
+          if (depth < maxDepth) {
+            walk(current.child, depth + 1, childPath);
+          }
+        } else {
+          walk(current.child, depth, path);
+        }
+        current = current.sibling;
+      }
+    };
+
+    forEachRoot(
+      root => walk(root?.current?.child, 1, []),
+      {rendererId: options.rendererId, rootIndex: options.rootIndex},
+    );
+    return nodes;
+  };
+
+  // Function component tags whose memoizedState holds a hook list.
+  const HOOK_TAGS = new Set([0, 11, 15]);
+
+  const getRendererWithDispatcher = (): any => {
+    let found: any = null;
+    getHook()?.renderers?.forEach((renderer: any) => {
+      if (!found && renderer?.currentDispatcherRef) {
+        found = renderer;
+      }
+    });
+    return found;
+  };
+
+  const readContextValue = (fiber: any, context: any): any => {
+    let dependency = fiber.dependencies?.firstContext;
+    while (dependency) {
+      if (dependency.context === context) {
+        return dependency.memoizedValue;
+      }
+      dependency = dependency.next;
+    }
+    return context?._currentValue;
+  };
+
+  const parseStackNames = (stack: string | undefined): string[] => {
+    return (stack ?? '')
+      .split('\n')
+      .slice(1)
+      .map(line => {
+        const match = /^\s*at (?:async )?(\S+) \(/.exec(line);
+        return match ? match[1].split('.').pop()! : '';
+      });
+  };
+
+  // Re-runs the component with a dispatcher that records every hook call
+  // against the committed hook list, the same way react-debug-tools does.
+  // Stack traces of each call reveal the custom hooks it went through.
+  const replayHooks = (fiber: any): HookInfo[] | null => {
+    const renderer = getRendererWithDispatcher();
+    if (!renderer) return null;
+    const dispatcherRef = renderer.currentDispatcherRef;
+    const dispatcherKey = 'H' in dispatcherRef ? 'H' : 'current';
+
+    let hookNode = fiber.memoizedState;
+    let slot = 0;
+    const calls: Array<HookInfo & {stack?: string}> = [];
+    const nextHook = (count = 1) => {
+      const node = hookNode;
+      const index = slot;
+      for (let i = 0; i < count && hookNode; i++) {
+        hookNode = hookNode.next;
+      }
+      slot += count;
+      return {node, index};
+    };
+    const record = (kind: string, index: number | null, value: unknown) => {
+      calls.push({index, kind, value, stack: new Error().stack});
+    };
+    const noop = () => {};
+
+    const dispatcher: Record<string, (...args: any[]) => any> = {
+      readContext: (context: any) => readContextValue(fiber, context),
+      use: (usable: any) => {
+        if (usable && typeof usable.then === 'function') {
+          const value = usable.status === 'fulfilled' ? usable.value : undefined;
+          record('use', null, value);
+          return value;
+        }
+        const value = readContextValue(fiber, usable);
+        record('use', null, value);
+        return value;
+      },
+      useContext: (context: any) => {
+        const value = readContextValue(fiber, context);
+        record(`useContext(${getContextName(context)})`, null, value);
+        return value;
+      },
+      useState: (initial: any) => {
+        const {node, index} = nextHook();
+        const value = node
+          ? node.memoizedState
+          : typeof initial === 'function'
+            ? initial()
+            : initial;
+        record('useState', index, value);
+        return [value, noop];
+      },
+      useReducer: (_reducer: any, initialArg: any, init?: (arg: any) => any) => {
+        const {node, index} = nextHook();
+        const value = node ? node.memoizedState : init ? init(initialArg) : initialArg;
+        record('useReducer', index, value);
+        return [value, noop];
+      },
+      useRef: (initial: any) => {
+        const {node, index} = nextHook();
+        const ref = node ? node.memoizedState : {current: initial};
+        record('useRef', index, ref?.current);
+        return ref;
+      },
+      useMemo: (create: () => any) => {
+        const {node, index} = nextHook();
+        const value = node ? node.memoizedState?.[0] : create();
+        record('useMemo', index, value);
+        return value;
+      },
+      useCallback: (callback: any) => {
+        const {node, index} = nextHook();
+        const value = node ? node.memoizedState?.[0] : callback;
+        record('useCallback', index, value);
+        return value;
+      },
+      useEffect: (_create: any, deps: any) => {
+        record('useEffect', nextHook().index, deps ?? null);
+      },
+      useLayoutEffect: (_create: any, deps: any) => {
+        record('useLayoutEffect', nextHook().index, deps ?? null);
+      },
+      useInsertionEffect: (_create: any, deps: any) => {
+        record('useInsertionEffect', nextHook().index, deps ?? null);
+      },
+      useImperativeHandle: (ref: any) => {
+        record('useImperativeHandle', nextHook().index, ref?.current);
+      },
+      useDebugValue: (value: any, format?: (value: any) => any) => {
+        record('useDebugValue', null, format ? format(value) : value);
+      },
+      useDeferredValue: (value: any) => {
+        const {node, index} = nextHook();
+        const deferred = node ? node.memoizedState : value;
+        record('useDeferredValue', index, deferred);
+        return deferred;
+      },
+      useTransition: () => {
+        const {node, index} = nextHook(2);
+        const isPending = node ? node.memoizedState : false;
+        record('useTransition', index, isPending);
+        return [isPending, noop];
+      },
+      useSyncExternalStore: (_subscribe: any, getSnapshot: () => any) => {
+        const {node, index} = nextHook(2);
+        const value = node ? node.memoizedState : getSnapshot();
+        record('useSyncExternalStore', index, value);
+        return value;
+      },
+      useId: () => {
+        const {node, index} = nextHook();
+        const value = node ? node.memoizedState : '';
+        record('useId', index, value);
+        return value;
+      },
+      useOptimistic: (passthrough: any) => {
+        const {node, index} = nextHook();
+        const value = node ? node.memoizedState : passthrough;
+        record('useOptimistic', index, value);
+        return [value, noop];
+      },
+      useActionState: (_action: any, initial: any) => {
+        const {node, index} = nextHook(3);
+        const value = node ? node.memoizedState : initial;
+        record('useActionState', index, value);
+        return [value, noop, false];
+      },
+      useEffectEvent: (callback: any) => {
+        record('useEffectEvent', nextHook().index, callback);
+        return callback;
+      },
+      useMemoCache: (size: number) => {
+        return new Array(size).fill(Symbol.for('react.memo_cache_sentinel'));
+      },
+      useHostTransitionStatus: () => {
+        return {pending: false, data: null, method: null, action: null};
+      },
+      useCacheRefresh: () => {
+        nextHook();
+        return noop;
+      },
+    };
+    dispatcher.useFormState = dispatcher.useActionState;
+
+    const previousDispatcher = dispatcherRef[dispatcherKey];
+    const previousStackLimit = Error.stackTraceLimit;
+    const consoleMethods = ['log', 'info', 'warn', 'error', 'debug'] as const;
+    const previousConsole = consoleMethods.map(method => console[method]);
+    let rootStack: string | undefined;
+    try {
+      Error.stackTraceLimit = 100;
+      consoleMethods.forEach(method => {
+        console[method] = noop;
+      });
+      dispatcherRef[dispatcherKey] = dispatcher;
+      rootStack = new Error().stack;
+      if (fiber.tag === 11) {
+        fiber.type.render(fiber.memoizedProps, fiber.ref);
+      } else {
+        fiber.type(fiber.memoizedProps, undefined);
+      }
+    } catch {
+      return null;
+    } finally {
+      dispatcherRef[dispatcherKey] = previousDispatcher;
+      Error.stackTraceLimit = previousStackLimit;
+      consoleMethods.forEach((method, i) => {
+        console[method] = previousConsole[i];
+      });
+    }
+
+    // Frames shared with the replay call site are not part of the component.
+    const sharedFrames = parseStackNames(rootStack).length - 1;
+    return calls.map(({stack, ...hook}) => {
+      const names = parseStackNames(stack);
+      const componentFrames = names.slice(1, names.length - sharedFrames - 2);
+      const path = componentFrames
+        .filter(name => /^use[A-Z0-9]/.test(name) && !(name in dispatcher))
+        .reverse();
+      return path.length ? {...hook, path} : hook;
+    });
+  };
+
+  // Fallback when the component cannot be replayed: infer each hook's kind
+  // from the shape of its memoized state.
+  const walkHookStates = (fiber: any): HookInfo[] => {
+    const hooks: HookInfo[] = [];
+    let node = fiber.memoizedState;
+    let index = 0;
+    while (node) {
+      const state = node.memoizedState;
+      let kind = 'unknown';
+      let value: unknown = state;
+      if (node.queue) {
+        kind = node.queue.lastRenderedReducer?.name === 'basicStateReducer'
+          ? 'useState'
+          : 'useReducer';
+      } else if (state && typeof state === 'object' && 'create' in state && 'deps' in state) {
+        kind = state.tag & 4 ? 'useLayoutEffect' : state.tag & 2 ? 'useInsertionEffect' : 'useEffect';
+        value = state.deps ?? null;
+      } else if (
+        state &&
+        typeof state === 'object' &&
+        !Array.isArray(state) &&
+        Object.keys(state).length === 1 &&
+        'current' in state
+      ) {
+        kind = 'useRef';
+        value = state.current;
+      } else if (
+        Array.isArray(state) &&
+        state.length === 2 &&
+        (state[1] === null || Array.isArray(state[1]))
+      ) {
+        kind = typeof state[0] === 'function' ? 'useCallback' : 'useMemo';
+        value = state[0];
+      }
+      hooks.push({index, kind, value});
+      node = node.next;
+      index++;
+    }
+    let dependency = fiber.dependencies?.firstContext;
+    while (dependency) {
+      hooks.push({
+        index: null,
+        kind: `useContext(${getContextName(dependency.context)})`,
+        value: dependency.memoizedValue,
+      });
+      dependency = dependency.next;
+    }
+    return hooks;
+  };
+
+  const inspectHooks = (fiber: any, {replay = true}: {replay?: boolean} = {}): HookInfo[] | null => {
+    if (!fiber || !HOOK_TAGS.has(fiber.tag)) return null;
+    const hooks = (replay ? replayHooks(fiber) : null) ?? walkHookStates(fiber);
+    return hooks.map(hook => ({...hook, value: safeSerialize(hook.value, 2)}));
+  };
+
+  const getOwners = (fiber: any): NonNullable<ComponentDetails['owners']> => {
+    const owners: NonNullable<ComponentDetails['owners']> = [];
+    let current = fiber.return;
+    while (current && owners.length < 10) {
+      if (isComponentFiber(current)) {
+        const source = extractSource(current);
+        owners.push({
+          name: getComponentName(current),
+          type: getComponentType(current),
+          ...(source && {source}),
+        });
+      }
+      current = current.return;
+    }
+    return owners;
+  };
+
+  const inspectComponent = (id: string): ComponentDetails | null => {
+    const fiber = findFiberById(id);
+    if (!fiber) return null;
+    const hooks = inspectHooks(fiber);
+    return {
+      id,
+      name: getComponentName(fiber),
+      type: getComponentType(fiber),
+      key: fiber.key,
+      props: fiber.memoizedProps ? safeSerialize(fiber.memoizedProps, 3) : null,
+      ...(hooks
+        ? {hooks}
+        : {state: fiber.memoizedState ? safeSerialize(fiber.memoizedState, 2) : null}),
+      source: extractSource(fiber) ?? undefined,
+      owners: getOwners(fiber),
+      path: getComponentPath(fiber),
+    };
+  };
+
+  const getComponentIdForElement = (element: any): {id?: string; error?: string} => {
+    const fiber = getFiberFromElement(element);
+    if (!fiber) {
+      return {error: 'Element has no React fiber'};
+    }
+    const component = getNearestComponentFiber(fiber);
+    if (!component) {
+      return {error: 'No React component found in fiber tree'};
+    }
+    return {id: getFiberId(component)};
+  };
+
+  // Subscribes to commits through the listener set installed by the hook
+  // bootstrap. Hooks installed by someone else get the same wrapper lazily.
+  const onCommit = (listener: (rendererId: number, root: any) => void): (() => void) => {
+    const hook = getHook();
+    if (!hook) return () => {};
+    if (!hook._commitListeners) {
+      const listeners = new Set<(rendererId: number, root: any) => void>();
+      const base = hook.onCommitFiberRoot;
+      hook._commitListeners = listeners;
+      hook.onCommitFiberRoot = function (rendererId: number, root: any, ...rest: any[]) {
+        listeners.forEach(fn => {
+          try {
+            fn(rendererId, root);
+          } catch {}
+        });
+        return base?.call(this, rendererId, root, ...rest);
+      };
+    }
+    hook._commitListeners.add(listener);
+    return () => hook._commitListeners.delete(listener);
+  };
+
+  const waitForCommit = (timeoutMs: number): Promise<boolean> => {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(false);
+      }, timeoutMs);
+      const unsubscribe = onCommit(() => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(true);
+      });
+    });
+  };
+
+  const didFiberRender = (fiber: any): boolean => {
+    if (!fiber.alternate) return true;
+    return ((fiber.flags ?? fiber.effectTag) & 1) === 1; // PerformedWork
+  };
+
+  // Compares a fiber with its previous version to explain why it rendered.
+  const getChangeDescription = (fiber: any): ChangeDescription => {
+    const prev = fiber.alternate;
+    const description: ChangeDescription = {
+      isFirstMount: !prev,
+      props: [],
+      hooks: [],
+      state: false,
+      contexts: [],
+      parentRendered: false,
+    };
+    if (!prev) return description;
+
+    const prevProps = prev.memoizedProps ?? {};
+    const nextProps = fiber.memoizedProps ?? {};
+    if (prevProps !== nextProps && typeof nextProps === 'object') {
+      const keys = new Set([...Object.keys(prevProps), ...Object.keys(nextProps)]);
+      for (const key of keys) {
+        if (!Object.is(prevProps[key], nextProps[key])) {
+          description.props.push(key);
+        }
+      }
+    }
+
+    if (HOOK_TAGS.has(fiber.tag)) {
+      let prevNode = prev.memoizedState;
+      let nextNode = fiber.memoizedState;
+      let index = 0;
+      while (prevNode && nextNode) {
+        // Only stateful hooks (those with an update queue) can cause a render.
+        if (nextNode.queue && !Object.is(prevNode.memoizedState, nextNode.memoizedState)) {
+          description.hooks.push(index);
+        }
+        prevNode = prevNode.next;
+        nextNode = nextNode.next;
+        index++;
+      }
+    } else if (fiber.tag === 1) {
+      description.state = !Object.is(prev.memoizedState, fiber.memoizedState);
+    }
+
+    let dependency = fiber.dependencies?.firstContext;
+    while (dependency) {
+      let prevDependency = prev.dependencies?.firstContext;
+      while (prevDependency && prevDependency.context !== dependency.context) {
+        prevDependency = prevDependency.next;
+      }
+      if (prevDependency && !Object.is(prevDependency.memoizedValue, dependency.memoizedValue)) {
+        description.contexts.push(getContextName(dependency.context));
+      }
+      dependency = dependency.next;
+    }
+
+    description.parentRendered =
+      description.props.length === 0 &&
+      description.hooks.length === 0 &&
+      !description.state &&
+      description.contexts.length === 0;
+    return description;
+  };
+
+  // A fiber was part of the last commit only if no ancestor bailed out with
+  // its previous children; untouched subtrees keep stale flags.
+  const didRenderInLastCommit = (fiber: any): boolean => {
+    let ancestor = fiber.return;
+    while (ancestor) {
+      if (ancestor.alternate && ancestor.child === ancestor.alternate.child) {
+        return false;
+      }
+      ancestor = ancestor.return;
+    }
+    return didFiberRender(fiber);
+  };
+
+  const getHookNode = (fiber: any, index: number): any => {
+    let node = fiber?.memoizedState;
+    for (let i = 0; i < index && node; i++) {
+      node = node.next;
+    }
+    return node;
+  };
+
+  const explainRender = (id: string): RenderExplanation | null => {
+    const fiber = findFiberById(id);
+    if (!fiber) return null;
+    const prev = fiber.alternate;
+    const reason = getChangeDescription(fiber);
+    const changes: RenderChange[] = [];
+
+    for (const key of reason.props) {
+      changes.push({
+        kind: 'prop',
+        name: key,
+        previous: safeSerialize(prev?.memoizedProps?.[key], 2),
+        next: safeSerialize(fiber.memoizedProps?.[key], 2),
+      });
+    }
+
+    if (reason.hooks.length > 0) {
+      const hooks = inspectHooks(fiber) ?? [];
+      for (const index of reason.hooks) {
+        const info = hooks.find(hook => hook.index === index);
+        const label = info
+          ? `#${index} ${info.kind}${info.path?.length ? ` (${info.path.join(' > ')})` : ''}`
+          : `#${index}`;
+        changes.push({
+          kind: 'hook',
+          name: label,
+          previous: safeSerialize(getHookNode(prev, index)?.memoizedState, 2),
+          next: safeSerialize(getHookNode(fiber, index)?.memoizedState, 2),
+        });
+      }
+    }
+
+    if (reason.state) {
+      changes.push({
+        kind: 'state',
+        name: 'state',
+        previous: safeSerialize(prev?.memoizedState, 2),
+        next: safeSerialize(fiber.memoizedState, 2),
+      });
+    }
+
+    let dependency = fiber.dependencies?.firstContext;
+    while (dependency) {
+      let prevDependency = prev?.dependencies?.firstContext;
+      while (prevDependency && prevDependency.context !== dependency.context) {
+        prevDependency = prevDependency.next;
+      }
+      if (prevDependency && !Object.is(prevDependency.memoizedValue, dependency.memoizedValue)) {
+        changes.push({
+          kind: 'context',
+          name: getContextName(dependency.context),
+          previous: safeSerialize(prevDependency.memoizedValue, 2),
+          next: safeSerialize(dependency.memoizedValue, 2),
+        });
+      }
+      dependency = dependency.next;
+    }
+
+    return {
+      id,
+      name: getComponentName(fiber),
+      type: getComponentType(fiber),
+      renderedInLastCommit: didRenderInLastCommit(fiber),
+      reason,
+      changes,
+    };
+  };
+
+  const describeProvider = (fiber: any): ContextProviderInfo => {
+    const owner = getNearestComponentFiber(fiber.return);
+    return {
+      context: getContextName(getFiberContext(fiber)),
+      value: safeSerialize(fiber.memoizedProps?.value, 3),
+      ...(owner && {owner: {id: getFiberId(owner), name: getComponentName(owner)}}),
+      path: getComponentPath(fiber),
+    };
+  };
+
+  const listContextProviders = (id?: string): ContextProviderInfo[] | null => {
+    const stack: any[] = [];
+    if (id) {
+      const fiber = findFiberById(id);
+      if (!fiber) return null;
+      stack.push(fiber.child);
+    } else {
+      forEachRoot(root => stack.unshift(root?.current));
+    }
+    const providers: ContextProviderInfo[] = [];
+    while (stack.length) {
+      const node = stack.pop();
+      if (!node) continue;
+      if (node.tag === 10) providers.push(describeProvider(node));
+      if (node.sibling) stack.push(node.sibling);
+      if (node.child) stack.push(node.child);
+    }
+    return providers;
+  };
+
+  // Contexts come from the dependency lists React keeps for change
+  // propagation: the component's own (useContext, use, contextType) and those
+  // of <Context.Consumer> fibers it rendered directly.
+  const getComponentContexts = (id: string): ComponentContexts | null => {
+    const fiber = findFiberById(id);
+    if (!fiber) return null;
+    const readers = [fiber];
+    const stack = [fiber.child];
+    while (stack.length) {
+      const node = stack.pop();
+      if (!node) continue;
+      if (node.tag === 9) readers.push(node);
+      if (node.sibling) stack.push(node.sibling);
+      if (node.child && !isComponentFiber(node)) stack.push(node.child);
+    }
+
+    const contexts: ComponentContexts['contexts'] = [];
+    for (const reader of readers) {
+      let dependency = reader.dependencies?.firstContext;
+      while (dependency) {
+        let provider = reader.return;
+        while (provider && !(provider.tag === 10 && getFiberContext(provider) === dependency.context)) {
+          provider = provider.return;
+        }
+        contexts.push({
+          context: getContextName(dependency.context),
+          value: safeSerialize(dependency.memoizedValue, 3),
+          provider: provider ? describeProvider(provider) : null,
+        });
+        dependency = dependency.next;
+      }
+    }
+    return {
+      id,
+      name: getComponentName(fiber),
+      type: getComponentType(fiber),
+      contexts,
+    };
+  };
+
+  type Suspension = {
+    kind: 'lazy' | 'promise';
+    component: string;
+    componentId?: string;
+    since: number;
+  };
+
+  // Pending suspensions by the id of the nearest Suspense boundary above the
+  // component that suspended. Entries are dropped when the thenable settles.
+  const suspensions = new Map<string, Map<object, Suspension>>();
+
+  const recordSuspension = (fiber: any, wakeable: any) => {
+    let boundary = fiber?.return;
+    while (boundary && boundary.tag !== 13) {
+      boundary = boundary.return;
+    }
+    if (!boundary || !wakeable || typeof wakeable.then !== 'function') return;
+    const boundaryId = getFiberId(boundary);
+    const pending = suspensions.get(boundaryId) ?? new Map<object, Suspension>();
+    suspensions.set(boundaryId, pending);
+    if (pending.has(wakeable)) return;
+    // A lazy fiber is named after the component rendering it. Fibers that
+    // suspend on mount are discarded, so only previously committed ones
+    // get an id.
+    const component = fiber.tag === 16 ? getNearestComponentFiber(fiber.return) : fiber;
+    pending.set(wakeable, {
+      kind: fiber.tag === 16 ? 'lazy' : 'promise',
+      component: component ? getComponentName(component) : 'Unknown',
+      ...(component?.alternate && isComponentFiber(component) && {componentId: getFiberId(component)}),
+      since: performance.now(),
+    });
+    const settle = () => {
+      pending.delete(wakeable);
+      if (pending.size === 0 && suspensions.get(boundaryId) === pending) {
+        suspensions.delete(boundaryId);
+      }
+    };
+    try {
+      wakeable.then(settle, settle);
+    } catch {
+      settle();
+    }
+  };
+
+  // Boundaries forced into their fallback or error state. Without a DevTools
+  // backend, React asks the handlers below about every Suspense boundary and
+  // class component it renders in development builds, like DevTools' toggles.
+  const forcedFallbacks = new Set<object>();
+  const forcedErrors = new Map<object, boolean>();
+
+  const isForcedFallback = (fiber: any): boolean => {
+    return forcedFallbacks.has(fiber) || (Boolean(fiber.alternate) && forcedFallbacks.has(fiber.alternate));
+  };
+
+  // true renders the error state, false resets the boundary's state once,
+  // null leaves it alone.
+  const shouldForceError = (fiber: any): boolean | null => {
+    const key = forcedErrors.has(fiber) ? fiber : fiber.alternate;
+    if (!key || !forcedErrors.has(key)) return null;
+    const force = forcedErrors.get(key)!;
+    if (!force) forcedErrors.delete(key);
+    return force;
+  };
+
+  const listSuspenseBoundaries = (includeResolved: boolean): SuspenseBoundaryInfo[] => {
+    const boundaries: SuspenseBoundaryInfo[] = [];
+    const now = performance.now();
+    forEachRoot(root => {
+      const stack = [root?.current];
+      while (stack.length) {
+        const node = stack.pop();
+        if (!node) continue;
+        if (node.tag === 13) {
+          const id = getFiberId(node);
+          const state = getBoundaryState(node)!;
+          const pending = [...(suspensions.get(id)?.values() ?? [])];
+          const forced = isForcedFallback(node);
+          if (includeResolved || state !== 'resolved' || pending.length > 0 || forced) {
+            const owner = getNearestComponentFiber(node.return);
+            boundaries.push({
+              id,
+              state,
+              ...(owner && {owner: {id: getFiberId(owner), name: getComponentName(owner)}}),
+              path: getComponentPath(node),
+              ...(forced && {forced}),
+              waitingOn: pending.map(({since, ...cause}) => ({
+                ...cause,
+                pendingMs: Math.round(now - since),
+              })),
+            });
+          }
+        }
+        if (node.sibling) stack.push(node.sibling);
+        if (node.child) stack.push(node.child);
+      }
+    });
+    return boundaries;
+  };
+
+  // React reports suspending components to scheduling profiler hooks in
+  // development and profiling builds. A renderer holds one set of hooks, and
+  // the DevTools backend injects its own for the timeline, so these are
+  // extended with `markComponentSuspended` rather than replaced. The hook
+  // bootstrap records hooks injected before the agent was installed.
+  const instrumentedRenderers = new WeakSet<object>();
+  const instrumentRenderer = (renderer: any) => {
+    if (!renderer || instrumentedRenderers.has(renderer)) return;
+    instrumentedRenderers.add(renderer);
+    const base = renderer.injectProfilingHooks;
+    if (typeof base !== 'function') return;
+    renderer._extendProfilingHooks = (hooks: any) => ({
+      ...hooks,
+      markComponentSuspended: (fiber: any, wakeable: any, lanes: any) => {
+        hooks?.markComponentSuspended?.(fiber, wakeable, lanes);
+        recordSuspension(fiber, wakeable);
+      },
+    });
+    if (base._tracked) {
+      renderer.injectProfilingHooks(renderer._profilingHooks ?? null);
+      return;
+    }
+    // Hooks injected before this point are unknown and left in place; the
+    // ones injected from now on are extended.
+    const inject = function (this: unknown, hooks: any) {
+      renderer._profilingHooks = hooks;
+      return base.call(this, renderer._extendProfilingHooks(hooks));
+    };
+    inject._tracked = true;
+    renderer.injectProfilingHooks = inject;
+  };
+
+  const MAX_REACT_ERRORS = 100;
+  const reactErrors = new Map<string, ReactErrorEntry>();
+  // Errors already recorded from a root handler, so React's console report
+  // of the same error is not counted twice.
+  const reportedErrors = new WeakSet<object>();
+  // React 18 rethrows render errors to window in development before it logs
+  // the component stack, without passing the error to the log.
+  let lastWindowError: {error: unknown; at: number} | null = null;
+
+  const parseComponentStack = (stack: unknown): string[] => {
+    if (typeof stack !== 'string') return [];
+    return stack
+      .split('\n')
+      .map(line => /^\s*at (?:new )?([^\s(]+)/.exec(line)?.[1])
+      .filter((name): name is string => Boolean(name));
+  };
+
+  const recordReactError = (report: {
+    error: unknown;
+    component?: string;
+    boundary?: string;
+    caught: boolean;
+    componentStack?: string;
+  }) => {
+    const {error} = report;
+    if (error && typeof error === 'object') {
+      if (reportedErrors.has(error)) return;
+      reportedErrors.add(error);
+    }
+    const message =
+      error instanceof Error
+        ? `${error.name}: ${error.message}`
+        : error === undefined
+          ? 'Unknown error'
+          : String(error);
+    const componentStack = parseComponentStack(report.componentStack);
+    const component = report.component ?? componentStack[0];
+    const key = `${component}|${report.boundary}|${message}`;
+    const existing = reactErrors.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = performance.now();
+      return;
+    }
+    if (reactErrors.size >= MAX_REACT_ERRORS) return;
+    const source =
+      parseStackLocation(error instanceof Error ? error.stack : undefined) ??
+      parseStackLocation(`\n${report.componentStack ?? ''}`);
+    reactErrors.set(key, {
+      message,
+      ...(component && {component}),
+      ...(report.boundary && {boundary: report.boundary}),
+      caught: report.caught,
+      componentStack,
+      ...(source && {source}),
+      count: 1,
+      lastSeen: performance.now(),
+    });
+  };
+
+  // React 19 keeps the createRoot error callbacks on the fiber root, where
+  // they receive the error with its component stack.
+  const wrappedRoots = new WeakSet<object>();
+  const wrapRootErrorHandlers = (root: any) => {
+    if (!root || wrappedRoots.has(root)) return;
+    wrappedRoots.add(root);
+    for (const [key, caught] of [
+      ['onCaughtError', true],
+      ['onUncaughtError', false],
+    ] as const) {
+      const handler = root[key];
+      if (typeof handler !== 'function') continue;
+      root[key] = function (this: unknown, error: unknown, errorInfo: any) {
+        try {
+          const boundary = errorInfo?.errorBoundary?.constructor;
+          recordReactError({
+            error,
+            caught,
+            boundary: caught ? boundary?.displayName || boundary?.name || 'Anonymous' : undefined,
+            componentStack: errorInfo?.componentStack,
+          });
+        } catch {}
+        return handler.call(this, error, errorInfo);
+      };
+    }
+  };
+
+  // The reports React logs for render errors (React 18, and React 19 roots
+  // created before the agent saw them). ReactSession passes them in from
+  // CDP, so console calls keep pointing at the app.
+  const REACT_ERROR_REPORT =
+    /(?:The above error|An error) occurred in (?:the <([^>]+)> component|one of your React components)/;
+  const ERROR_BOUNDARY_NAME = /using the error boundary you provided, ([^\s.]+)\./;
+
+  const inspectConsoleReport = (args: unknown[]) => {
+    const text = args.filter(arg => typeof arg === 'string').join('\n');
+    const report = REACT_ERROR_REPORT.exec(text);
+    if (!report) return;
+    const boundary = ERROR_BOUNDARY_NAME.exec(text)?.[1];
+    let error: unknown = args.find(arg => arg instanceof Error);
+    if (!error && lastWindowError && performance.now() - lastWindowError.at < 1000) {
+      error = lastWindowError.error;
+    }
+    const stackStart = text.search(/\n\s*at /);
+    recordReactError({
+      error,
+      component: report[1],
+      boundary,
+      caught: Boolean(boundary),
+      componentStack: stackStart === -1 ? undefined : text.slice(stackStart),
+    });
+  };
+
+  const getReactErrors = (clear: boolean): ReactErrorEntry[] => {
+    const entries = [...reactErrors.values()].map(entry => ({
+      ...entry,
+      ...(entry.source && {source: resolvedSources.get(getSourceKey(entry.source)) ?? entry.source}),
+    }));
+    if (clear) reactErrors.clear();
+    return entries;
+  };
+
+  // Never hydrated by React, or rewritten by the browser and extensions.
+  const HYDRATION_IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META']);
+
+  type ComparableChild = {node: Node; text?: string};
+
+  // Element children plus runs of text. React separates adjacent server text
+  // with `<!-- -->` comments, so comments neither count nor split a run.
+  const getComparableChildren = (parent: Node): ComparableChild[] => {
+    const children: ComparableChild[] = [];
+    let run: ComparableChild | null = null;
+    const flush = () => {
+      const text = run?.text?.replace(/\s+/g, ' ').trim();
+      if (run && text) children.push({node: run.node, text});
+      run = null;
+    };
+    parent.childNodes.forEach(child => {
+      if (child.nodeType === 3) {
+        if (run) {
+          run.text += child.textContent ?? '';
+        } else {
+          run = {node: child, text: child.textContent ?? ''};
+        }
+      } else if (child.nodeType === 1 && !HYDRATION_IGNORED_TAGS.has((child as Element).tagName)) {
+        flush();
+        children.push({node: child});
+      }
+    });
+    flush();
+    return children;
+  };
+
+  const describeElement = (element: Element): string => {
+    const id = element.id ? `#${element.id}` : '';
+    const className = element.getAttribute('class')?.trim().split(/\s+/)[0];
+    return `${element.tagName.toLowerCase()}${id}${!id && className ? `.${className}` : ''}`;
+  };
+
+  const describeChild = (child: ComparableChild): string => {
+    if (child.text !== undefined) {
+      return child.text.length > 100 ? `${child.text.slice(0, 100)}...` : child.text;
+    }
+    const element = child.node as Element;
+    const html = element.outerHTML;
+    const open = html.slice(0, html.indexOf('>') + 1);
+    return open.length > 100 ? `<${describeElement(element)} ...>` : open;
+  };
+
+  const getAttributeValue = (element: Element, name: string): string | null => {
+    // Browsers rewrite inline styles, so compare them parsed.
+    if (name === 'style' && element.hasAttribute('style')) {
+      return (element as HTMLElement).style?.cssText ?? element.getAttribute('style');
+    }
+    return element.getAttribute(name);
+  };
+
+  // A copy of each hydrated root's DOM as its hydration commit left it, so
+  // updates made after hydration (effects, data loading, client-only state)
+  // are not mistaken for mismatches. `originals` maps copied nodes back to
+  // the live ones, which carry the fibers.
+  const hydratedDoms = new WeakMap<object, {copy: Element; originals: Map<Node, Node>}>();
+  const seenRoots = new WeakSet<object>();
+
+  const getRootContainer = (root: any): Element | null => {
+    const container = root?.containerInfo;
+    // Roots hydrated on the whole document (Next.js app router) own <body>.
+    if (container?.nodeType === 9) return container.body;
+    return container?.nodeType === 1 ? container : null;
+  };
+
+  const recordHydratedDom = (root: any) => {
+    if (!root || seenRoots.has(root)) return;
+    seenRoots.add(root);
+    // The state the first commit replaced: dehydrated in React 18+, and
+    // React 17 keeps the flag on the root.
+    const hydrated = root.current?.alternate?.memoizedState?.isDehydrated === true || root.hydrate === true;
+    const container = getRootContainer(root);
+    if (!hydrated || !container) return;
+    const copy = container.cloneNode(true) as Element;
+    const originals = new Map<Node, Node>();
+    const pair = (copied: Node, original: Node) => {
+      originals.set(copied, original);
+      copied.childNodes.forEach((child, idx) => pair(child, original.childNodes[idx]));
+    };
+    pair(copy, container);
+    hydratedDoms.set(root, {copy, originals});
+  };
+
+  const compareServerHtml = (
+    html: string,
+    maxMismatches: number,
+  ): Omit<HydrationReport, 'url' | 'warnings'> => {
+    const serverDocument = new DOMParser().parseFromString(html, 'text/html');
+    const mismatches: HydrationMismatch[] = [];
+    let truncated = false;
+    let roots = 0;
+    let clientOnlyRoots = 0;
+    // Live nodes for the copied nodes of the root being compared.
+    let originals = new Map<Node, Node>();
+
+    const report = (mismatch: Omit<HydrationMismatch, 'component' | 'source'>, clientNode: Node) => {
+      if (mismatches.length >= maxMismatches) {
+        truncated = true;
+        return;
+      }
+      let node: Node | null = originals.get(clientNode) ?? clientNode;
+      let fiber = null;
+      while (node && !fiber) {
+        fiber = getFiberFromElement(node);
+        node = node.parentNode;
+      }
+      const owner = getNearestComponentFiber(fiber);
+      const source = owner && extractSource(owner);
+      mismatches.push({
+        ...mismatch,
+        ...(owner && {
+          component: {
+            id: getFiberId(owner),
+            name: getComponentName(owner),
+            path: getComponentPath(owner),
+          },
+        }),
+        ...(source && {source}),
+      });
+    };
+
+    const compareElements = (server: Element, client: Element, path: string) => {
+      // suppressHydrationWarning silences React for the element's own
+      // attributes and text, one level deep.
+      const suppressed = Boolean(
+        getFiberFromElement(originals.get(client) ?? client)?.memoizedProps?.suppressHydrationWarning,
+      );
+      if (!suppressed) {
+        const names = new Set([
+          ...server.getAttributeNames(),
+          ...client.getAttributeNames(),
+        ]);
+        for (const name of names) {
+          const serverValue = getAttributeValue(server, name);
+          const clientValue = getAttributeValue(client, name);
+          if (serverValue !== clientValue) {
+            report(
+              {
+                kind: 'attribute',
+                path,
+                attribute: name,
+                ...(serverValue !== null && {server: serverValue}),
+                ...(clientValue !== null && {client: clientValue}),
+              },
+              client,
+            );
+          }
+        }
+      }
+
+      const serverChildren = getComparableChildren(server);
+      const clientChildren = getComparableChildren(client);
+      const tagCounts = new Map<string, number>();
+      for (const child of clientChildren) {
+        if (child.text === undefined) {
+          const tag = (child.node as Element).tagName;
+          tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+        }
+      }
+      const length = Math.max(serverChildren.length, clientChildren.length);
+      for (let idx = 0; idx < length && !truncated; idx++) {
+        const serverChild = serverChildren[idx];
+        const clientChild = clientChildren[idx];
+        if (!clientChild) {
+          report({kind: 'missing', path, server: describeChild(serverChild)}, client);
+          continue;
+        }
+        const childPath =
+          clientChild.text !== undefined
+            ? `${path} > #text`
+            : `${path} > ${describeElement(clientChild.node as Element)}${
+                (tagCounts.get((clientChild.node as Element).tagName) ?? 0) > 1 &&
+                !(clientChild.node as Element).id
+                  ? `:nth-child(${Array.prototype.indexOf.call(client.children, clientChild.node) + 1})`
+                  : ''
+              }`;
+        if (!serverChild) {
+          report({kind: 'extra', path: childPath, client: describeChild(clientChild)}, clientChild.node);
+          continue;
+        }
+        if (serverChild.text !== undefined && clientChild.text !== undefined) {
+          if (serverChild.text !== clientChild.text && !suppressed) {
+            report(
+              {kind: 'text', path: childPath, server: serverChild.text, client: clientChild.text},
+              clientChild.node,
+            );
+          }
+          continue;
+        }
+        const serverElement = serverChild.node as Element;
+        const clientElement = clientChild.node as Element;
+        if (
+          serverChild.text !== undefined ||
+          clientChild.text !== undefined ||
+          serverElement.tagName !== clientElement.tagName
+        ) {
+          report(
+            {
+              kind: 'element',
+              path: childPath,
+              server: describeChild(serverChild),
+              client: describeChild(clientChild),
+            },
+            clientChild.node,
+          );
+          continue;
+        }
+        compareElements(serverElement, clientElement, childPath);
+      }
+    };
+
+    // Finds the server copy of a root container by id, or by its position
+    // among comparable elements from <body>.
+    const findServerContainer = (container: Element): Element | null => {
+      if (container === document.body) return serverDocument.body;
+      if (container.id) return serverDocument.getElementById(container.id);
+      const indices: number[] = [];
+      let current: Element | null = container;
+      while (current && current !== document.body) {
+        const parent: Element | null = current.parentElement;
+        if (!parent) return null;
+        indices.unshift(getComparableChildren(parent).findIndex(child => child.node === current));
+        current = parent;
+      }
+      let serverNode: Element | null = serverDocument.body;
+      for (const idx of indices) {
+        const child: ComparableChild | undefined = serverNode
+          ? getComparableChildren(serverNode)[idx]
+          : undefined;
+        serverNode = child && child.text === undefined ? (child.node as Element) : null;
+      }
+      return serverNode;
+    };
+
+    const containers = new Map<Element, any>();
+    forEachRoot(root => {
+      const container = getRootContainer(root);
+      if (container) containers.set(container, root);
+    });
+    for (const [container, root] of containers) {
+      if (truncated) break;
+      const serverContainer = findServerContainer(container);
+      const hydrated = hydratedDoms.get(root);
+      // Roots rendered with createRoot replace whatever the server sent.
+      if (!hydrated || !serverContainer || getComparableChildren(serverContainer).length === 0) {
+        clientOnlyRoots++;
+        continue;
+      }
+      roots++;
+      originals = hydrated.originals;
+      compareElements(serverContainer, hydrated.copy, describeElement(container));
+    }
+    return {roots, clientOnlyRoots, mismatches, truncated};
+  };
+
+  const MAX_NETWORK_INITIATORS = 500;
+  type PendingInitiator = NetworkInitiator & {stackNames?: string[]};
+  const networkInitiators: PendingInitiator[] = [];
+  const STACK_FUNCTION_NAME = /^\s*at (?:async )?(?:new )?([\w$.]+) [(\[]/gm;
+  const NON_COMPONENT_NAMES = new Set(['AsyncFunction', 'AsyncGenerator', 'Generator', 'Module']);
+
+  // React sets the current fiber in development builds while it renders a
+  // component or runs its effects. Otherwise keep the capitalized stack frame
+  // names (`Profile`, `UserList.componentDidMount`) that are not browser
+  // globals such as `Promise` or `XMLHttpRequest`; they are matched against
+  // mounted components when the requests are collected, not on the app's
+  // request path.
+  const findRequestingComponent = (): Pick<PendingInitiator, 'component' | 'stackNames'> => {
+    let fiber: any = null;
+    getHook()?.renderers?.forEach((renderer: any) => {
+      if (!fiber && typeof renderer.getCurrentFiber === 'function') {
+        fiber = getNearestComponentFiber(renderer.getCurrentFiber());
+      }
+    });
+    if (fiber) {
+      return {component: {id: getFiberId(fiber), name: getComponentName(fiber), via: 'react'}};
+    }
+
+    const names: string[] = [];
+    for (const match of (new Error().stack ?? '').matchAll(STACK_FUNCTION_NAME)) {
+      const name = match[1].split('.')[0];
+      if (
+        /^[A-Z]/.test(name) &&
+        !NON_COMPONENT_NAMES.has(name) &&
+        typeof (global as any)[name] !== 'function' &&
+        !names.includes(name)
+      ) {
+        names.push(name);
+      }
+    }
+    return names.length ? {stackNames: names} : {};
+  };
+
+  const recordNetworkInitiator = (method: string, url: unknown) => {
+    let href: string;
+    try {
+      href = new URL(String(url), global.location?.href).href.replace(/#.*$/, '');
+    } catch {
+      return;
+    }
+    networkInitiators.push({method: method.toUpperCase(), url: href, ...findRequestingComponent()});
+    if (networkInitiators.length > MAX_NETWORK_INITIATORS) networkInitiators.shift();
+  };
+
+  const takeNetworkInitiators = (): NetworkInitiator[] => {
+    const taken = networkInitiators.splice(0, networkInitiators.length);
+    const wanted = new Set(taken.flatMap(initiator => initiator.stackNames ?? []));
+    const byName = new Map<string, any>();
+    if (wanted.size > 0) {
+      forEachComponentFiber(candidate => {
+        const name = getComponentName(candidate);
+        if (wanted.has(name) && !byName.has(name)) byName.set(name, candidate);
+      });
+    }
+    return taken.map(({stackNames, ...initiator}) => {
+      const name = stackNames?.find(name => byName.has(name));
+      return name
+        ? {...initiator, component: {id: getFiberId(byName.get(name)), name, via: 'stack'}}
+        : initiator;
+    });
+  };
+
+  const instrumentNetwork = () => {
+    const fetch = global.fetch;
+    if (typeof fetch === 'function') {
+      global.fetch = function (this: unknown, input: any, init?: any) {
+        try {
+          const request = typeof Request !== 'undefined' && input instanceof Request ? input : null;
+          recordNetworkInitiator(init?.method ?? request?.method ?? 'GET', request ? request.url : input);
+        } catch {}
+        return fetch.call(this, input, init);
+      };
+    }
+    const xhr = global.XMLHttpRequest?.prototype;
+    if (xhr) {
+      const opened = new WeakMap<object, [string, unknown]>();
+      const open = xhr.open;
+      const send = xhr.send;
+      xhr.open = function (this: object, method: string, url: unknown, ...rest: unknown[]) {
+        opened.set(this, [method, url]);
+        return open.call(this, method, url, ...rest);
+      };
+      xhr.send = function (this: object, ...args: unknown[]) {
+        try {
+          const call = opened.get(this);
+          if (call) recordNetworkInitiator(call[0], call[1]);
+        } catch {}
+        return send.apply(this, args);
+      };
+    }
+  };
+
+  const MAX_RECORDED_COMMITS = 500;
+  const recordings = new Map<string, RecordingState>();
+
+  type RecordingState = {
+    session: ProfilingSession;
+    unsubscribe: () => void;
+  };
+
+  const recordCommit = (session: ProfilingSession, root: any) => {
+    const renders: ProfiledRender[] = [];
+    const walk = (fiber: any) => {
+      let current = fiber;
+      while (current) {
+        if (isComponentFiber(current) && didFiberRender(current)) {
+          const render: ProfiledRender = {
+            id: getFiberId(current),
+            name: getComponentName(current),
+            reason: getChangeDescription(current),
+          };
+          if (typeof current.actualDuration === 'number') {
+            let childDuration = 0;
+            let child = current.child;
+            while (child) {
+              childDuration += child.actualDuration ?? 0;
+              child = child.sibling;
+            }
+            render.actualDuration = current.actualDuration;
+            render.selfDuration = Math.max(current.actualDuration - childDuration, 0);
+          }
+          if (typeof current.selfBaseDuration === 'number') {
+            render.selfBaseDuration = current.selfBaseDuration;
+          }
+          renders.push(render);
+        }
+        // Subtrees React bailed out of keep the previous child fibers.
+        if (!current.alternate || current.child !== current.alternate.child) {
+          walk(current.child);
+        }
+        current = current.sibling;
+      }
+    };
+    walk(root.current);
+
+    if (session.commits.length >= MAX_RECORDED_COMMITS) {
+      session.truncated = true;
+      return;
+    }
+    session.commits.push({
+      index: session.commits.length,
+      timestamp: performance.now() - session.startedAt,
+      duration:
+        typeof root.current?.actualDuration === 'number' ? root.current.actualDuration : undefined,
+      renders,
+    });
+  };
+
+  const startRecording = (key: string): boolean => {
+    if (recordings.has(key)) return false;
+    const session: ProfilingSession = {
+      startedAt: performance.now(),
+      duration: 0,
+      commits: [],
+      truncated: false,
+    };
+    const unsubscribe = onCommit((_rendererId, root) => recordCommit(session, root));
+    recordings.set(key, {session, unsubscribe});
+    return true;
+  };
+
+  const stopRecording = (key: string): ProfilingSession | null => {
+    const recording = recordings.get(key);
+    if (!recording) return null;
+    recording.unsubscribe();
+    recordings.delete(key);
+    recording.session.duration = performance.now() - recording.session.startedAt;
+    return recording.session;
+  };
+
+  const getRendererIdForFiber = (fiber: any): number | null => {
+    let root = fiber;
+    while (root.return) {
+      root = root.return;
+    }
+    let found: number | null = null;
+    forEachRoot((fiberRoot, rendererId) => {
+      if (found === null && (fiberRoot.current === root || fiberRoot.current?.alternate === root)) {
+        found = rendererId;
+      }
+    });
+    return found;
+  };
+
+  const getRendererForFiber = (fiber: any): any => {
+    const rendererId = getRendererIdForFiber(fiber);
+    return rendererId === null ? null : getHook().renderers.get(rendererId);
+  };
+
+  const copyWithSet = (obj: any, path: string[], value: unknown, index = 0): any => {
+    if (index >= path.length) return value;
+    const key = path[index];
+    const updated = Array.isArray(obj) ? obj.slice() : {...obj};
+    updated[key] = copyWithSet(obj?.[key], path, value, index + 1);
+    return updated;
+  };
+
+  const applyEdit = (id: string, edit: ComponentEdit): string | null => {
+    const fiber = findFiberById(id);
+    if (!fiber) return `No mounted component with id ${id}`;
+    const renderer = getRendererForFiber(fiber);
+    const path = edit.path ?? [];
+
+    switch (edit.kind) {
+      case 'prop': {
+        if (path.length === 0) return 'A prop path is required';
+        if (typeof renderer?.overrideProps !== 'function') {
+          return 'Overriding props requires a development build of React';
+        }
+        renderer.overrideProps(fiber, path, edit.value);
+        return null;
+      }
+      case 'hook': {
+        if (!HOOK_TAGS.has(fiber.tag)) {
+          return `${getComponentName(fiber)} is not a function component`;
+        }
+        if (edit.hookIndex === undefined) return 'hookIndex is required for hook edits';
+        let node = fiber.memoizedState;
+        for (let i = 0; i < edit.hookIndex && node; i++) {
+          node = node.next;
+        }
+        if (!node) return `Hook #${edit.hookIndex} does not exist`;
+        if (typeof renderer?.overrideHookState === 'function') {
+          renderer.overrideHookState(fiber, edit.hookIndex, path, edit.value);
+          return null;
+        }
+        // Production builds lack overrideHookState, but useState hooks can
+        // still be driven through their own dispatcher. A useReducer
+        // dispatcher only accepts actions, so those need a development build.
+        if (node.queue?.dispatch && node.queue.lastRenderedReducer?.name === 'basicStateReducer') {
+          const next = copyWithSet(node.memoizedState, path, edit.value);
+          node.queue.dispatch(typeof next === 'function' ? () => next : next);
+          return null;
+        }
+        return `Hook #${edit.hookIndex} is not a useState hook; editing useReducer and other hooks requires a development build of React`;
+      }
+      case 'state': {
+        if (fiber.tag !== 1 || typeof fiber.stateNode?.setState !== 'function') {
+          return `${getComponentName(fiber)} is not a class component; use kind "hook" for function components`;
+        }
+        fiber.stateNode.setState((prev: any) =>
+          path.length ? copyWithSet(prev, path, edit.value) : edit.value,
+        );
+        return null;
+      }
+      default:
+        return `Unknown edit kind ${(edit as ComponentEdit).kind}`;
+    }
+  };
+
+  const isErrorBoundary = (fiber: any): boolean => {
+    return (
+      fiber.tag === 1 &&
+      (typeof fiber.type?.getDerivedStateFromError === 'function' ||
+        typeof fiber.stateNode?.componentDidCatch === 'function')
+    );
+  };
+
+  // The backend addresses elements by its own ids, which it only exposes for
+  // host instances; the id of a DOM element rendered directly under the
+  // boundary (not under a nested one) leads the backend back to it.
+  const overrideThroughBackend = (
+    rendererInterface: any,
+    boundary: any,
+    kind: 'suspense' | 'error',
+    force: boolean,
+    isBoundary: (fiber: any) => boolean,
+  ): string | null => {
+    const override =
+      kind === 'suspense' ? rendererInterface.overrideSuspense : rendererInterface.overrideError;
+    if (typeof override !== 'function' || typeof rendererInterface.getElementIDForHostInstance !== 'function') {
+      return `The attached React DevTools backend cannot force ${kind === 'suspense' ? 'a fallback' : 'an error'}`;
+    }
+    let hostInstance: any = null;
+    const stack = [boundary.child];
+    while (stack.length && !hostInstance) {
+      const node = stack.pop();
+      if (!node) continue;
+      if (node.sibling) stack.push(node.sibling);
+      if ((node.tag === 5 || node.tag === 26 || node.tag === 27) && node.stateNode) {
+        hostInstance = node.stateNode;
+      } else if (!isBoundary(node)) {
+        stack.push(node.child);
+      }
+    }
+    const elementId = hostInstance ? rendererInterface.getElementIDForHostInstance(hostInstance) : null;
+    if (elementId == null) {
+      return `${getComponentName(boundary)} renders no DOM element the DevTools backend can resolve it from`;
+    }
+    override.call(rendererInterface, elementId, force);
+    if (kind === 'suspense') {
+      forcedFallbacks.delete(boundary);
+      forcedFallbacks.delete(boundary.alternate);
+      if (force) forcedFallbacks.add(boundary);
+    }
+    return null;
+  };
+
+  const overrideBoundary = (
+    id: string,
+    kind: 'suspense' | 'error',
+    force: boolean,
+  ): {boundary?: {id: string; name: string}; error?: string} => {
+    const fiber = findFiberById(id);
+    if (!fiber) return {error: `No mounted component with id ${id}`};
+    const isBoundary = kind === 'suspense' ? (node: any) => node.tag === 13 : isErrorBoundary;
+    let boundary = fiber;
+    while (boundary && !isBoundary(boundary)) {
+      boundary = boundary.return;
+    }
+    if (!boundary) {
+      return {
+        error:
+          kind === 'suspense'
+            ? `${getComponentName(fiber)} is not inside a Suspense boundary`
+            : `${getComponentName(fiber)} is not inside an error boundary (a class component with getDerivedStateFromError or componentDidCatch)`,
+      };
+    }
+
+    const rendererId = getRendererIdForFiber(boundary);
+    const rendererInterface =
+      rendererId === null ? null : getHook()?.rendererInterfaces?.get?.(rendererId);
+    if (rendererInterface) {
+      // A DevTools backend is attached: go through it, since React holds one
+      // handler per renderer and the backend keeps its own forced boundaries.
+      const error = overrideThroughBackend(rendererInterface, boundary, kind, force, isBoundary);
+      if (error) return {error};
+      return {boundary: {id: getFiberId(boundary), name: getComponentName(boundary)}};
+    }
+
+    const renderer = getRendererForFiber(boundary);
+    const setHandler = kind === 'suspense' ? renderer?.setSuspenseHandler : renderer?.setErrorHandler;
+    if (typeof setHandler !== 'function' || typeof renderer.scheduleUpdate !== 'function') {
+      return {error: `Forcing ${kind === 'suspense' ? 'a fallback' : 'an error'} requires a development build of React`};
+    }
+    if (kind === 'suspense') {
+      forcedFallbacks.delete(boundary);
+      forcedFallbacks.delete(boundary.alternate);
+      if (force) forcedFallbacks.add(boundary);
+      setHandler(isForcedFallback);
+    } else {
+      forcedErrors.delete(boundary.alternate);
+      forcedErrors.set(boundary, force);
+      setHandler(shouldForceError);
+    }
+    renderer.scheduleUpdate(boundary);
+    return {boundary: {id: getFiberId(boundary), name: getComponentName(boundary)}};
+  };
+
+  const recordBackendNodeIds = (locations: BackendNodeLocation[]): number => {
+    let recorded = 0;
+    for (const {backendNodeId, nodeName, path} of locations) {
+      let node: any = document;
+      for (const step of path) {
+        node = step === -1 ? node?.shadowRoot : node?.children?.[step];
+      }
+      // The DOM may have changed since CDP described it.
+      if (node?.nodeName === nodeName) {
+        backendNodeIds.set(node, backendNodeId);
+        recorded++;
+      }
+    }
+    return recorded;
+  };
+
+  const getBackendNodeId = (element: any): number | undefined => {
+    return element && typeof element === 'object' ? backendNodeIds.get(element) : undefined;
+  };
+
+  const heldNodes = new Map<number, Element>();
+  let nextHeldNode = 1;
+
+  const holdNode = (node: any): number => {
+    const token = nextHeldNode++;
+    if (node?.nodeType === 1) heldNodes.set(token, node);
+    return token;
+  };
+
+  const takeHeldNode = (token: number): Element | null => {
+    const node = heldNodes.get(token) ?? null;
+    heldNodes.delete(token);
+    return node;
+  };
+
+  // Collects the outermost DOM elements rendered by a fiber subtree.
+  const getHostNodes = (fiber: any): Element[] => {
+    const nodes: Element[] = [];
+    const walk = (node: any) => {
+      let current = node;
+      while (current) {
+        if ((current.tag === 5 || current.tag === 26 || current.tag === 27) && current.stateNode) {
+          nodes.push(current.stateNode);
+        } else {
+          walk(current.child);
+        }
+        current = current.sibling;
+      }
+    };
+    if (fiber.tag === 5 && fiber.stateNode) {
+      return [fiber.stateNode];
+    }
+    walk(fiber.child);
+    return nodes;
+  };
+
+  const OVERLAY_ID = '__react-devtools-mcp-highlight';
+  let overlayTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const removeOverlay = () => {
+    clearTimeout(overlayTimer);
+    document.getElementById(OVERLAY_ID)?.remove();
+  };
+
+  const highlight = (id: string, durationMs: number): HighlightResult => {
+    removeOverlay();
+    const fiber = findFiberById(id);
+    if (!fiber) {
+      return {ok: false, message: `No mounted component with id ${id}`};
+    }
+    const name = getComponentName(fiber);
+    const elements = getHostNodes(fiber);
+    if (elements.length === 0) {
+      return {ok: false, message: `${name} does not render any DOM nodes`};
+    }
+
+    elements[0].scrollIntoView({block: 'center', inline: 'nearest'});
+
+    const source = extractSource(fiber);
+    const location = source?.fileName
+      ? ` ${source.fileName}:${source.lineNumber ?? '?'}:${source.columnNumber ?? '?'}`
+      : '';
+
+    const container = document.createElement('div');
+    container.id = OVERLAY_ID;
+    container.style.cssText =
+      'position:fixed;inset:0;pointer-events:none;z-index:2147483647;';
+
+    let boxes = 0;
+    for (const element of elements) {
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) continue;
+      boxes++;
+
+      const box = document.createElement('div');
+      box.style.cssText = `position:absolute;left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px;background:rgba(111,168,220,0.35);outline:1px solid rgba(38,110,180,0.9);`;
+      container.appendChild(box);
+
+      const label = document.createElement('div');
+      label.textContent = `${name} ${Math.round(rect.width)}×${Math.round(rect.height)}${location}`;
+      const labelTop = rect.top >= 20 ? rect.top - 20 : rect.bottom + 2;
+      label.style.cssText = `position:absolute;left:${Math.max(rect.left, 0)}px;top:${labelTop}px;padding:2px 6px;background:#333740;color:#fff;font:12px/16px monospace;white-space:nowrap;border-radius:3px;`;
+      container.appendChild(label);
+    }
+
+    if (boxes === 0) {
+      return {ok: false, message: `${name} only renders zero-sized DOM nodes`};
+    }
+
+    document.documentElement.appendChild(container);
+    if (durationMs > 0) {
+      overlayTimer = setTimeout(removeOverlay, durationMs);
+    }
+    return {
+      ok: true,
+      message: `${name} (${boxes} node${boxes === 1 ? '' : 's'})${location}`,
+    };
+  };
+
+  const agent: PageAgent = {
+    getComponentName,
+    getComponentType,
+    isComponentFiber,
+    getBoundaryState,
+    extractSource,
+    collectFunctionsWithoutSource,
+    recordFunctionSources,
+    collectUnresolvedSources,
+    recordResolvedSources,
+    safeSerialize,
+    getFiberId,
+    getFiberFromElement,
+    getNearestComponentFiber,
+    findFiberById,
+    forEachRoot,
+    listComponents,
+    inspectComponent,
+    inspectHooks,
+    getComponentIdForElement,
+    onCommit,
+    waitForCommit,
+    getChangeDescription,
+    explainRender,
+    getReactErrors,
+    inspectConsoleReport,
+    compareServerHtml,
+    takeNetworkInitiators,
+    listContextProviders,
+    getComponentContexts,
+    listSuspenseBoundaries,
+    startRecording,
+    stopRecording,
+    applyEdit,
+    overrideBoundary,
+    getHostNodes,
+    recordBackendNodeIds,
+    getBackendNodeId,
+    holdNode,
+    takeHeldNode,
+    highlight,
+  };
+  Object.defineProperty(global, '__REACT_DEVTOOLS_MCP__', {
+    value: agent,
+    configurable: true,
+  });
+
+  instrumentNetwork();
+  global.addEventListener?.('error', (event: ErrorEvent) => {
+    lastWindowError = {error: event.error, at: performance.now()};
+  });
+  forEachRoot(root => {
+    wrapRootErrorHandlers(root);
+    // Already past their first commit.
+    seenRoots.add(root);
+  });
+  onCommit((_rendererId, root) => {
+    wrapRootErrorHandlers(root);
+    recordHydratedDom(root);
+  });
+
+  // Renderers register before their first render, which may already suspend.
+  const hook = getHook();
+  hook?.renderers?.forEach(instrumentRenderer);
+  if (hook && typeof hook.inject === 'function') {
+    const inject = hook.inject;
+    hook.inject = function (renderer: any) {
+      const id = inject.call(this, renderer);
+      instrumentRenderer(renderer);
+      return id;
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import {formatSnapshotLine} from './snapshotFormat.js';
+import type {
+  ComponentMap,
+  ComponentMapNode,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotDiffEntry,
+  SnapshotNode,
+} from './tools/ToolDefinition.js';
+
+// Accessibility properties compared between snapshots, besides the name.
+const SNAPSHOT_DIFF_PROPERTIES = [
+  'role',
+  'value',
+  'description',
+  'checked',
+  'disabled',
+  'expanded',
+  'focused',
+  'haspopup',
+  'invalid',
+  'level',
+  'modal',
+  'pressed',
+  'readonly',
+  'required',
+  'selected',
+  'valuetext',
+] as const;
+
+interface IndexedNode<T> {
+  node: T;
+  /** Key of the parent, to list added and removed subtrees once. */
+  parentKey: string | null;
+  path: string[];
+}
+
+type Change = NonNullable<SnapshotDiffEntry['changes']>[number];
+
+function isEqual(before: unknown, after: unknown): boolean {
+  return JSON.stringify(before) === JSON.stringify(after);
+}
+
+/**
+ * Indexes a tree by a key that identifies the same node in another version
+ * of it. Siblings with the same identity are told apart by their order.
+ */
+function indexTree<T extends {children?: T[]}>(
+  roots: T[],
+  identify: (node: T) => string,
+  describe: (node: T) => string,
+): Map<string, IndexedNode<T>> {
+  const index = new Map<string, IndexedNode<T>>();
+  const walk = (nodes: T[], parentKey: string | null, path: string[]) => {
+    const seen = new Map<string, number>();
+    for (const node of nodes) {
+      const identity = identify(node);
+      const occurrence = seen.get(identity) ?? 0;
+      seen.set(identity, occurrence + 1);
+      // Identities starting with `#` are global, like DOM node ids.
+      const key = identity.startsWith('#')
+        ? identity
+        : `${parentKey ?? ''}/${identity}~${occurrence}`;
+      index.set(key, {node, parentKey, path});
+      walk(node.children ?? [], key, [...path, describe(node)]);
+    }
+  };
+  walk(roots, null, []);
+  return index;
+}
+
+function diffTrees<T extends {children?: T[]}>(
+  before: Map<string, IndexedNode<T>>,
+  after: Map<string, IndexedNode<T>>,
+  describe: (node: T) => string,
+  compare: (before: T, after: T) => Change[],
+): Pick<SnapshotDiff, 'added' | 'removed' | 'changed'> {
+  const toEntry = ({node, path}: IndexedNode<T>, changes?: Change[]): SnapshotDiffEntry => ({
+    node: describe(node),
+    path,
+    ...(changes && {changes}),
+  });
+  const added: SnapshotDiffEntry[] = [];
+  const removed: SnapshotDiffEntry[] = [];
+  const changed: SnapshotDiffEntry[] = [];
+  for (const [key, entry] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      if (entry.parentKey === null || before.has(entry.parentKey)) {
+        added.push(toEntry(entry));
+      }
+      continue;
+    }
+    const changes = compare(previous.node, entry.node);
+    if (changes.length > 0) {
+      changed.push(toEntry(entry, changes));
+    }
+  }
+  for (const [key, entry] of before) {
+    if (!after.has(key) && (entry.parentKey === null || after.has(entry.parentKey))) {
+      removed.push(toEntry(entry));
+    }
+  }
+  return {added, removed, changed};
+}
+
+/** Matches accessibility nodes by their DOM node, falling back to role and name. */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const identify = (node: SnapshotNode) =>
+    node.backendDOMNodeId !== undefined
+      ? `#${node.backendDOMNodeId}`
+      : `${node.role}:${node.name ?? ''}`;
+  const pathName = (node: SnapshotNode) =>
+    node.name ? `${node.role} "${node.name}"` : (node.role ?? 'unknown');
+  const compare = (before: SnapshotNode, after: SnapshotNode): Change[] => {
+    const changes: Change[] = [];
+    for (const property of ['name', ...SNAPSHOT_DIFF_PROPERTIES] as const) {
+      if (!isEqual(before[property], after[property])) {
+        changes.push({property, before: before[property], after: after[property]});
+      }
+    }
+    return changes;
+  };
+  return {
+    kind: 'accessibility',
+    from: from.snapshotId,
+    to: to.snapshotId,
+    ...diffTrees(
+      indexTree([from.root], identify, pathName),
+      indexTree([to.root], identify, pathName),
+      formatSnapshotLine,
+      compare,
+    ),
+  };
+}
+
+function describeMapNode(node: ComponentMapNode): string {
+  if (node.kind === 'component' || node.kind === 'boundary') {
+    return `${node.name}${node.key != null ? ` key=${JSON.stringify(node.key)}` : ''}`;
+  }
+  return node.accessibleName ? `${node.name} "${node.accessibleName}"` : node.name;
+}
+
+/**
+ * Matches component map nodes by their position among their siblings, their
+ * kind, name and key.
+ */
+export function diffComponentMaps(
+  from: {id: string; map: ComponentMap},
+  to: {id: string; map: ComponentMap},
+): SnapshotDiff {
+  const identify = (node: ComponentMapNode) => `${node.kind}:${node.name}:${node.key ?? ''}`;
+  const compare = (before: ComponentMapNode, after: ComponentMapNode): Change[] => {
+    const changes: Change[] = [];
+    const props = new Set([
+      ...Object.keys(before.props ?? {}),
+      ...Object.keys(after.props ?? {}),
+    ]);
+    for (const prop of props) {
+      if (prop === 'children') continue;
+      if (!isEqual(before.props?.[prop], after.props?.[prop])) {
+        changes.push({property: `props.${prop}`, before: before.props?.[prop], after: after.props?.[prop]});
+      }
+    }
+    const length = Math.max(before.hooks?.length ?? 0, after.hooks?.length ?? 0);
+    for (let idx = 0; idx < length; idx++) {
+      const previous = before.hooks?.[idx];
+      const current = after.hooks?.[idx];
+      if (!isEqual(previous?.value, current?.value)) {
+        changes.push({
+          property: `hooks[${idx}] (${(current ?? previous)?.kind})`,
+          before: previous?.value,
+          after: current?.value,
+        });
+      }
+    }
+    for (const property of ['state', 'boundaryState', 'accessibleName', 'role'] as const) {
+      if (!isEqual(before[property], after[property])) {
+        changes.push({property, before: before[property], after: after[property]});
+      }
+    }
+    return changes;
+  };
+  return {
+    kind: 'components',
+    from: from.id,
+    to: to.id,
+    ...diffTrees(
+      indexTree(from.map.roots, identify, describeMapNode),
+      indexTree(to.map.roots, identify, describeMapNode),
+      describeMapNode,
+      compare,
+    ),
+  };
+}
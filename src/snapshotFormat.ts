@@ -0,0 +1,64 @@
+import type {SnapshotNode} from './tools/ToolDefinition.js';
+
+// Containers that only add a line of noise in text output.
+const TRANSPARENT_ROLES = new Set(['generic', 'none', 'presentation', 'InlineTextBox']);
+
+const MAX_TEXT_LENGTH = 100;
+
+function quote(text: string): string {
+  const truncated = text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}...` : text;
+  return JSON.stringify(truncated);
+}
+
+function describeStates(node: SnapshotNode): string[] {
+  const states: string[] = [];
+  if (node.focused) states.push('focused');
+  if (node.disabled) states.push('disabled');
+  if (node.expanded !== undefined) states.push(node.expanded ? 'expanded' : 'collapsed');
+  if (node.checked !== undefined) {
+    states.push(node.checked === 'mixed' ? 'checked=mixed' : node.checked ? 'checked' : 'unchecked');
+  }
+  if (node.pressed !== undefined) {
+    states.push(node.pressed === 'mixed' ? 'pressed=mixed' : node.pressed ? 'pressed' : 'not pressed');
+  }
+  if (node.selected) states.push('selected');
+  if (node.required) states.push('required');
+  if (node.readonly) states.push('readonly');
+  if (node.modal) states.push('modal');
+  if (node.invalid && node.invalid !== 'false') states.push('invalid');
+  if (node.level !== undefined) states.push(`level=${node.level}`);
+  if (node.haspopup && node.haspopup !== 'false') states.push(`haspopup=${node.haspopup}`);
+  return states;
+}
+
+/** One line per node: `role "name" [uid] value="..." states`. */
+export function formatSnapshotLine(node: SnapshotNode): string {
+  const parts = [node.role ?? 'unknown'];
+  if (node.name) parts.push(quote(node.name));
+  if (node.uid) parts.push(`[${node.uid}]`);
+  if (node.value !== undefined && node.value !== '') parts.push(`value=${quote(String(node.value))}`);
+  parts.push(...describeStates(node));
+  return parts.join(' ');
+}
+
+/**
+ * Renders a snapshot as an indented outline. Unnamed generic containers are
+ * skipped, and so is text that only repeats its parent's name.
+ */
+export function formatSnapshotText(root: SnapshotNode): string {
+  const lines: string[] = [];
+  const walk = (node: SnapshotNode, depth: number, parentName?: string) => {
+    const skip =
+      (node.role !== undefined && TRANSPARENT_ROLES.has(node.role) && !node.name) ||
+      node.role === 'InlineTextBox' ||
+      (node.role === 'StaticText' && !!parentName && !!node.name && parentName.includes(node.name));
+    if (!skip) {
+      lines.push(`${'  '.repeat(depth)}- ${formatSnapshotLine(node)}`);
+    }
+    for (const child of node.children ?? []) {
+      walk(child, skip ? depth : depth + 1, skip ? parentName : node.name);
+    }
+  };
+  walk(root, 0);
+  return lines.join('\n');
+}
@@ -0,0 +1,87 @@
+import {spawn} from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type {ComponentDetails, SourceSnippet} from './tools/ToolDefinition.js';
+
+type SourceLocation = NonNullable<ComponentDetails['source']>;
+
+/**
+ * Resolves a component source path to a file inside `projectRoot`. Relative
+ * paths are taken from the root; absolute paths must already point inside
+ * it. Symlinks are resolved before the check so they cannot escape the root.
+ */
+export async function resolveProjectFile(
+  projectRoot: string,
+  fileName: string,
+): Promise<string> {
+  // Dev servers append cache-busting queries (`App.tsx?t=123`).
+  const cleaned = fileName.replace(/[?#].*$/, '');
+  const root = await fs.realpath(projectRoot);
+  const isInsideRoot = (file: string) => {
+    const relative = path.relative(root, file);
+    return !(relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative));
+  };
+
+  const candidate = path.resolve(root, cleaned);
+  if (!isInsideRoot(candidate)) {
+    throw new Error(`Source file ${fileName} is outside the project root ${root}`);
+  }
+  let real: string;
+  try {
+    real = await fs.realpath(candidate);
+  } catch {
+    throw new Error(`Source file ${fileName} was not found under the project root ${root}`);
+  }
+  if (!isInsideRoot(real)) {
+    throw new Error(`Source file ${fileName} is outside the project root ${root}`);
+  }
+  return real;
+}
+
+export async function readSourceSnippet(
+  projectRoot: string,
+  source: SourceLocation,
+  contextLines: number,
+): Promise<SourceSnippet> {
+  if (!source.fileName) {
+    throw new Error('The component has no source file');
+  }
+  const filePath = await resolveProjectFile(projectRoot, source.fileName);
+  const content = await fs.readFile(filePath, 'utf8');
+  const lines = content.split(/\r?\n/);
+  const line = Math.min(Math.max(source.lineNumber ?? 1, 1), lines.length);
+  const startLine = Math.max(line - contextLines, 1);
+  const endLine = Math.min(line + contextLines, lines.length);
+  return {
+    filePath,
+    fileName: path.relative(await fs.realpath(projectRoot), filePath),
+    lineNumber: line,
+    columnNumber: source.columnNumber,
+    startLine,
+    lines: lines.slice(startLine - 1, endLine),
+    editorUrl: `vscode://file${filePath.startsWith('/') ? '' : '/'}${filePath}:${line}:${source.columnNumber ?? 1}`,
+  };
+}
+
+/**
+ * Opens a file at a line in the editor from `$REACT_EDITOR` or `$EDITOR`.
+ * VS Code style editors get `-g file:line:column`, others `+line file`.
+ */
+export function launchEditor(snippet: SourceSnippet): string {
+  const editor = process.env.REACT_EDITOR || process.env.EDITOR;
+  if (!editor) {
+    throw new Error('Set $REACT_EDITOR or $EDITOR to open files in an editor');
+  }
+  const [command, ...editorArgs] = editor.split(' ').filter(Boolean);
+  const position = `${snippet.filePath}:${snippet.lineNumber}:${snippet.columnNumber ?? 1}`;
+  const args = /^(code|code-insiders|codium|cursor|windsurf)(\.cmd|\.exe)?$/.test(
+    path.basename(command),
+  )
+    ? [...editorArgs, '-g', position]
+    : [...editorArgs, `+${snippet.lineNumber}`, snippet.filePath];
+  const child = spawn(command, args, {detached: true, stdio: 'ignore'});
+  child.on('error', () => {});
+  child.unref();
+  return `${command} ${args.join(' ')}`;
+}
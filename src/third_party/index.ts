@@ -24,4 +24,5 @@ export type {
   Target,
   ElementHandle,
   HTTPRequest,
+  KeyInput,
 } from 'puppeteer-core';
@@ -25,17 +25,65 @@ export interface Response {
 export type Context = Readonly<{
   ensureReactAttached(): Promise<ReactAttachResult>;
   listReactRoots(): Promise<ReactRootInfo[]>;
-  listComponents(options: {
-    rendererId?: number;
-    rootIndex?: number;
-    depth?: number;
-    maxNodes?: number;
-    nameFilter?: string;
-  }): Promise<ComponentNode[]>;
+  listComponents(options: ListComponentsOptions): Promise<ComponentNode[]>;
   getComponentById(id: string): Promise<ComponentDetails | null>;
-  highlightComponent(id: string): Promise<{ok: boolean; message: string}>;
+  resolveComponentId(target: ComponentTarget): Promise<string>;
+  getComponentByBackendNodeId(
+    target: Pick<ComponentTarget, 'backendDOMNodeId' | 'uid'>,
+  ): Promise<ComponentDetails>;
+  editComponent(target: ComponentTarget, edit: ComponentEdit): Promise<ComponentEditResult>;
+  explainRender(target: ComponentTarget): Promise<RenderExplanation>;
+  listContextProviders(target?: ComponentTarget): Promise<ContextProviderInfo[]>;
+  getComponentContexts(target: ComponentTarget): Promise<ComponentContexts>;
+  listSuspenseBoundaries(includeResolved: boolean): Promise<SuspenseBoundaryInfo[]>;
+  getReactErrors(options?: {clear?: boolean}): Promise<ReactErrorEntry[]>;
+  detectHydrationMismatches(
+    url: string,
+    options: {timeout?: number; settleMs?: number; maxMismatches?: number},
+  ): Promise<HydrationReport>;
+  listConsoleMessages(
+    options: ConsoleMessagesOptions,
+  ): Promise<{messages: ConsoleEntry[]; total: number}>;
+  listNetworkRequests(
+    options: NetworkRequestsOptions,
+  ): Promise<{requests: NetworkRequestEntry[]; total: number}>;
+  getNetworkRequest(id: number, includeBodies: boolean): Promise<NetworkRequestDetails>;
+  overrideBoundary(
+    target: ComponentTarget,
+    kind: BoundaryOverrideKind,
+    force: boolean,
+  ): Promise<BoundaryOverrideResult>;
+  interact(
+    target: ElementTarget | undefined,
+    action: InteractionAction,
+    options: {timeout?: number},
+  ): Promise<InteractionResult>;
+  /** Resolves once `condition` holds; rejects when `timeout` passes first. */
+  waitFor(condition: WaitCondition, options: {timeout?: number}): Promise<WaitResult>;
+  getComponentSource(
+    target: ComponentTarget,
+    options: {contextLines: number; openInEditor?: boolean},
+  ): Promise<ComponentSourceResult>;
+  startProfiling(): Promise<void>;
+  stopProfiling(): Promise<ProfilingSession>;
+  highlightComponent(
+    id: string,
+    options?: {durationMs?: number; screenshot?: boolean},
+  ): Promise<HighlightResult>;
   takeSnapshot(verbose?: boolean): Promise<Snapshot | null>;
-  getComponentMap(verbose?: boolean, includeState?: boolean): Promise<string | null>;
+  /** `mapId` identifies the built map for `diffSnapshot`. */
+  getComponentMap(
+    options?: ComponentMapOptions,
+  ): Promise<{output: string; mapId?: string} | null>;
+  /**
+   * Compares two stored snapshots or component maps of the selected page.
+   * `from` defaults to the latest one; without `to` a new one is taken now.
+   */
+  diffSnapshot(options: {
+    kind: SnapshotDiffKind;
+    from?: string;
+    to?: string;
+  }): Promise<SnapshotDiff>;
   getSelectedPage(): Page;
   getPages(): Page[];
   getPageByIdx(idx: number): Page;
@@ -64,6 +112,14 @@ export interface ReactRootInfo {
   rootIndex: number;
 }
 
+export interface ListComponentsOptions {
+  rendererId?: number;
+  rootIndex?: number;
+  depth?: number;
+  maxNodes?: number;
+  nameFilter?: string;
+}
+
 export interface ComponentNode {
   id: string;
   name: string;
@@ -73,6 +129,333 @@ export interface ComponentNode {
   path: string;
 }
 
+/** Identifies a component either by id or by a DOM node it rendered. */
+export interface ComponentTarget {
+  id?: string;
+  backendDOMNodeId?: number;
+  /** Element uid from the latest snapshot of the page. */
+  uid?: string;
+}
+
+/** An element to act on, by snapshot uid, DOM node, accessible role and name, or component. */
+export interface ElementTarget extends ComponentTarget {
+  role?: string;
+  name?: string;
+}
+
+export type InteractionAction =
+  | {type: 'click'; double?: boolean}
+  | {type: 'hover'}
+  | {type: 'fill'; value: string}
+  | {type: 'press_key'; key: string}
+  | {type: 'select_option'; values: string[]};
+
+export interface InteractionResult {
+  /** The element acted on, e.g. `button "Save" in SaveBar (id 12)`. */
+  element?: string;
+  /** Commits React made in response; null when the page navigated away. */
+  session: ProfilingSession | null;
+  /** URL the page navigated to during the interaction. */
+  navigatedTo?: string;
+}
+
+/** What a `wait_for_*` tool waits for on the selected page. */
+export type WaitCondition =
+  | {kind: 'component'; name: string; state: 'mounted' | 'unmounted'}
+  | {kind: 'suspense'}
+  | {kind: 'idle'; quietMs: number}
+  | {kind: 'text'; text: string};
+
+export interface WaitResult {
+  elapsedMs: number;
+  /** Mounted components with the awaited name. */
+  components?: ComponentNode[];
+  /** Accessibility nodes whose name or value contains the awaited text. */
+  matches?: Array<{role?: string; name?: string; backendDOMNodeId?: number}>;
+}
+
+export interface ComponentEdit {
+  kind: 'prop' | 'hook' | 'state';
+  /** Keys leading to the value to replace; empty replaces the whole hook value or state. */
+  path?: string[];
+  hookIndex?: number;
+  value: unknown;
+}
+
+export interface ComponentEditResult {
+  component: ComponentDetails;
+  /** Whether React committed within the wait window after the edit. */
+  rerendered: boolean;
+}
+
+/** Why a component rendered, from comparing its fiber with the alternate. */
+export interface ChangeDescription {
+  isFirstMount: boolean;
+  /** Prop keys whose values changed. */
+  props: string[];
+  /** Indices of stateful hooks whose values changed. */
+  hooks: number[];
+  /** Class component state changed. */
+  state: boolean;
+  /** Names of contexts whose values changed. */
+  contexts: string[];
+  /** Nothing of its own changed, so a parent render caused it. */
+  parentRendered: boolean;
+}
+
+export interface RenderChange {
+  kind: 'prop' | 'hook' | 'state' | 'context';
+  /** Prop key, hook label such as `#2 useState (useCounter)`, or context name. */
+  name: string;
+  previous: unknown;
+  next: unknown;
+}
+
+export interface RenderExplanation {
+  id: string;
+  name: string;
+  type: string;
+  /** False when React bailed out of this component in the most recent commit. */
+  renderedInLastCommit: boolean;
+  reason: ChangeDescription;
+  changes: RenderChange[];
+}
+
+/** A mounted `<Context.Provider>` (or `<Context>` in React 19). */
+export interface ContextProviderInfo {
+  context: string;
+  value: unknown;
+  /** The component that rendered the provider. */
+  owner?: {id: string; name: string};
+  path: string;
+}
+
+export interface ContextDependency {
+  context: string;
+  /** Value read in the component's last render. */
+  value: unknown;
+  /** Nearest provider above the reader; null when the default value is used. */
+  provider: ContextProviderInfo | null;
+}
+
+export interface ComponentContexts {
+  id: string;
+  name: string;
+  type: string;
+  contexts: ContextDependency[];
+}
+
+/**
+ * `fallback` and `dehydrated` (server HTML not hydrated yet) apply to
+ * Suspense boundaries, `pending`/`rejected` to lazy components and
+ * `hidden`/`visible` to Offscreen trees.
+ */
+export type BoundaryState =
+  | 'resolved'
+  | 'fallback'
+  | 'dehydrated'
+  | 'pending'
+  | 'rejected'
+  | 'hidden'
+  | 'visible';
+
+export interface SuspenseCause {
+  /** `lazy` for a lazy component still loading, `promise` for a thrown thenable. */
+  kind: 'lazy' | 'promise';
+  /** The component that suspended; for lazy components, the one rendering it. */
+  component: string;
+  /** Only set for components that were mounted before they suspended. */
+  componentId?: string;
+  pendingMs: number;
+}
+
+export interface SuspenseBoundaryInfo {
+  id: string;
+  state: BoundaryState;
+  /** The component that rendered the boundary. */
+  owner?: {id: string; name: string};
+  path: string;
+  /** Held in its fallback by force_suspense. */
+  forced?: boolean;
+  /** Pending suspensions caught by the boundary, in builds that report them. */
+  waitingOn: SuspenseCause[];
+}
+
+export type BoundaryOverrideKind = 'suspense' | 'error';
+
+export interface BoundaryOverrideResult {
+  /** The Suspense or error boundary at or above the target component. */
+  boundary: {id: string; name: string};
+  forced: boolean;
+  /** Whether React committed within the wait window. */
+  rerendered: boolean;
+}
+
+/** A render error React reported, merged with repeats of the same error. */
+export interface ReactErrorEntry {
+  /** `Name: message` of the thrown error. */
+  message: string;
+  /** The component that threw. */
+  component?: string;
+  /** Error boundary that caught the error; absent for uncaught errors. */
+  boundary?: string;
+  caught: boolean;
+  /** Component names from React's component stack, innermost first. */
+  componentStack: string[];
+  /** Where the error was thrown, or the component's frame in the component stack. */
+  source?: ComponentDetails['source'];
+  count: number;
+  /** Milliseconds since the page started loading. */
+  lastSeen: number;
+}
+
+/** A node whose server-rendered HTML differs from the DOM after hydration. */
+export interface HydrationMismatch {
+  kind: 'text' | 'element' | 'attribute' | 'missing' | 'extra';
+  /** Position in the document, e.g. `div#root > main > p:nth-child(2)`. */
+  path: string;
+  attribute?: string;
+  /** What the server sent; absent for `extra` nodes. */
+  server?: string;
+  /** What the page shows now; absent for `missing` nodes. */
+  client?: string;
+  /** Nearest component that rendered the node (or its parent, for missing nodes). */
+  component?: {id: string; name: string; path: string};
+  source?: ComponentDetails['source'];
+}
+
+export interface HydrationReport {
+  url: string;
+  /** React roots whose server HTML was compared. */
+  roots: number;
+  /** Roots the server sent empty, i.e. rendered only on the client. */
+  clientOnlyRoots: number;
+  mismatches: HydrationMismatch[];
+  truncated: boolean;
+  /** Hydration warnings React logged while the page loaded. */
+  warnings: ConsoleEntry[];
+}
+
+export interface NetworkRequestEntry {
+  id: number;
+  url: string;
+  method: string;
+  /** Puppeteer resource type: `document`, `fetch`, `xhr`, `script`, ... */
+  resourceType: string;
+  status?: number;
+  statusText?: string;
+  /** Network error text for failed requests. */
+  failure?: string;
+  mimeType?: string;
+  /** Unix time in milliseconds when the request was sent. */
+  startTime: number;
+  durationMs?: number;
+  /** Bytes received over the network, headers included. */
+  size?: number;
+  fromCache?: boolean;
+  /** Innermost frame of the JS stack that sent the request, or how it started. */
+  initiator?: string;
+  /**
+   * Component that sent the fetch or XHR: `react` when React was running its
+   * render or effect at the time, `stack` when matched by a stack frame name.
+   */
+  component?: {id: string; name: string; via: 'react' | 'stack'};
+}
+
+export interface NetworkRequestDetails extends NetworkRequestEntry {
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  /** JS stack at request time, innermost first. */
+  stack: string[];
+  requestBody?: string;
+  responseBody?: string;
+}
+
+export interface NetworkRequestsOptions {
+  resourceTypes?: string[];
+  /** Substring the URL must contain. */
+  urlFilter?: string;
+  /** Only requests attributed to this component name. */
+  component?: string;
+  limit?: number;
+  /** Empty the log after reading it. */
+  clear?: boolean;
+}
+
+export type ConsoleLevel = 'error' | 'warn' | 'info' | 'log' | 'debug';
+
+/** A React development warning recognized in a console message. */
+export interface ReactWarning {
+  kind: 'key' | 'act' | 'hydration' | 'other';
+  /** Component names the warning mentions, innermost first. */
+  components: string[];
+}
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  /** Puppeteer console type (`log`, `assert`, ...), or `pageerror` for uncaught exceptions. */
+  type: string;
+  text: string;
+  /** Unix time in milliseconds. */
+  timestamp: number;
+  /** 1-based position of the call. */
+  location?: {url: string; lineNumber?: number; columnNumber?: number};
+  react?: ReactWarning;
+}
+
+export interface ConsoleMessagesOptions {
+  levels?: ConsoleLevel[];
+  /** Only React warnings. */
+  reactOnly?: boolean;
+  /** Only React warnings that mention this component. */
+  component?: string;
+  limit?: number;
+  /** Empty the buffer after reading it. */
+  clear?: boolean;
+}
+
+export interface ProfiledRender {
+  id: string;
+  name: string;
+  actualDuration?: number;
+  selfDuration?: number;
+  selfBaseDuration?: number;
+  reason: ChangeDescription;
+}
+
+export interface ProfiledCommit {
+  index: number;
+  /** Milliseconds since profiling started. */
+  timestamp: number;
+  duration?: number;
+  renders: ProfiledRender[];
+}
+
+export interface ProfilingSession {
+  startedAt: number;
+  duration: number;
+  commits: ProfiledCommit[];
+  /** Commits past the recording limit were dropped. */
+  truncated: boolean;
+}
+
+export interface HighlightResult {
+  ok: boolean;
+  message: string;
+  /** Base64-encoded PNG of the page with the overlay drawn. */
+  screenshot?: string;
+}
+
+export interface HookInfo {
+  /** Position in the fiber's hook list, or null for hooks without a slot (useContext, use). */
+  index: number | null;
+  kind: string;
+  value: unknown;
+  /** Custom hooks the call went through, outermost first. */
+  path?: string[];
+}
+
 export interface ComponentDetails {
   id: string;
   name: string;
@@ -80,14 +463,100 @@ export interface ComponentDetails {
   key?: string | null;
   props?: unknown;
   state?: unknown;
+  hooks?: HookInfo[];
   source?: {
     fileName?: string;
     lineNumber?: number;
     columnNumber?: number;
   };
+  owners?: Array<{
+    name: string;
+    type: string;
+    source?: {
+      fileName?: string;
+      lineNumber?: number;
+      columnNumber?: number;
+    };
+  }>;
   path: string;
 }
 
+export interface SourceSnippet {
+  /** Absolute path of the file on disk. */
+  filePath: string;
+  /** Path relative to the project root. */
+  fileName: string;
+  lineNumber: number;
+  columnNumber?: number;
+  /** 1-based line number of `lines[0]`. */
+  startLine: number;
+  lines: string[];
+  editorUrl: string;
+}
+
+export interface ComponentSourceResult {
+  component: ComponentDetails;
+  /** Missing when no project root is configured to read files from. */
+  snippet?: SourceSnippet;
+  /** Command line used to open the editor, when requested. */
+  editorCommand?: string;
+}
+
+export type ComponentMapFormat = 'text' | 'json';
+
+/** One node of the structured (`format: 'json'`) component map. */
+export interface ComponentMapNode {
+  /**
+   * `component` for React components, `host` for semantic DOM elements,
+   * `a11y` for accessibility nodes without a component of their own and
+   * `boundary` for Suspense, pending Lazy and hidden Offscreen fibers.
+   */
+  kind: 'component' | 'host' | 'a11y' | 'boundary';
+  name: string;
+  type?: string;
+  key?: string | null;
+  props?: Record<string, unknown>;
+  hooks?: HookInfo[];
+  state?: unknown;
+  role?: string;
+  accessibleName?: string;
+  backendDOMNodeId?: number;
+  source?: ComponentDetails['source'];
+  boundaryState?: BoundaryState;
+  children: ComponentMapNode[];
+  /** Children left out by the `maxDepth` or `maxLines` budget. */
+  elidedChildren?: number;
+}
+
+export interface ComponentMapTiming {
+  /** Accessibility snapshot. */
+  snapshotMs: number;
+  /** Tagging DOM nodes with their backend ids. */
+  taggingMs: number;
+  taggedNodes: number;
+  walkMs: number;
+  totalMs: number;
+}
+
+export interface ComponentMap {
+  roots: ComponentMapNode[];
+  /** Top-level nodes left out by the `maxLines` budget. */
+  elidedRoots?: number;
+  timing?: ComponentMapTiming;
+}
+
+export interface ComponentMapOptions {
+  verbose?: boolean;
+  includeState?: boolean;
+  format?: ComponentMapFormat;
+  /** Map only this component's subtree, or every component with this name. */
+  root?: ComponentTarget & {name?: string};
+  /** Levels below the top-level nodes to include. */
+  maxDepth?: number;
+  /** Maximum number of nodes to include. */
+  maxLines?: number;
+}
+
 export interface SnapshotNode {
   role?: string;
   name?: string;
@@ -98,6 +567,7 @@ export interface SnapshotNode {
   valuetext?: string;
   disabled?: boolean;
   expanded?: boolean;
+  focusable?: boolean;
   focused?: boolean;
   modal?: boolean;
   multiline?: boolean;
@@ -115,7 +585,9 @@ export interface SnapshotNode {
   invalid?: string;
   orientation?: string;
   children?: SnapshotNode[];
+  /** `<snapshotId>_<n>`; valid as a tool target until the next snapshot. */
   uid?: string;
+  backendDOMNodeId?: number;
   reactComponent?: {
     id: string;
     name: string;
@@ -144,6 +616,28 @@ export interface Snapshot {
   snapshotId: string;
 }
 
+export type SnapshotDiffKind = 'accessibility' | 'components';
+
+export interface SnapshotDiffEntry {
+  /** One-line description of the node. */
+  node: string;
+  /** Names of its ancestors, outermost first. */
+  path: string[];
+  /** For changed nodes, what changed. */
+  changes?: Array<{property: string; before?: unknown; after?: unknown}>;
+}
+
+export interface SnapshotDiff {
+  kind: SnapshotDiffKind;
+  /** Ids of the compared snapshots or component maps. */
+  from: string;
+  to: string;
+  /** Added and removed subtrees are listed by their top node only. */
+  added: SnapshotDiffEntry[];
+  removed: SnapshotDiffEntry[];
+  changed: SnapshotDiffEntry[];
+}
+
 export function defineTool<Schema extends zod.ZodRawShape>(
   definition: ToolDefinition<Schema>,
 ) {
@@ -152,6 +646,45 @@ export function defineTool<Schema extends zod.ZodRawShape>(
 
 export const CLOSE_PAGE_ERROR = 'Cannot close the last open page';
 
+export const componentTargetSchema = {
+  id: zod
+    .string()
+    .optional()
+    .describe('Component id as returned by list_components.'),
+  backendDOMNodeId: zod
+    .number()
+    .optional()
+    .describe(
+      'Backend DOM node ID from take_snapshot. Resolves to the nearest component that rendered the node.',
+    ),
+  uid: zod
+    .string()
+    .optional()
+    .describe(
+      'Element uid from the latest take_snapshot. Resolves to the nearest component that rendered the element.',
+    ),
+};
+
+export const elementTargetSchema = {
+  uid: zod.string().optional().describe('Element uid from the latest take_snapshot.'),
+  backendDOMNodeId: zod
+    .number()
+    .optional()
+    .describe('Backend DOM node ID from take_snapshot.'),
+  role: zod
+    .string()
+    .optional()
+    .describe('Accessible role, together with name (e.g. "button").'),
+  name: zod
+    .string()
+    .optional()
+    .describe('Accessible name, together with role (e.g. "Save").'),
+  id: zod
+    .string()
+    .optional()
+    .describe('Component id from list_components. Targets the first DOM element it renders.'),
+};
+
 export const timeoutSchema = {
   timeout: zod
     .number()
@@ -0,0 +1,68 @@
+import {zod} from '../third_party/index.js';
+
+import {defineTool, type ConsoleEntry} from './ToolDefinition.js';
+
+function formatLocation(entry: ConsoleEntry): string {
+  if (!entry.location) {
+    return '';
+  }
+  const {url, lineNumber, columnNumber} = entry.location;
+  return ` (${url}${lineNumber ? `:${lineNumber}` : ''}${columnNumber ? `:${columnNumber}` : ''})`;
+}
+
+export const listConsoleMessages = defineTool({
+  name: 'list_console_messages',
+  description:
+    'List console messages and uncaught exceptions logged by the selected page, oldest first. React development warnings (missing keys, act(...), hydration mismatches) are tagged with the components named in their component stacks. Filter by level, to React warnings only, or to warnings about one component. The last 1000 messages per page are kept across navigations.',
+  schema: {
+    levels: zod
+      .array(zod.enum(['error', 'warn', 'info', 'log', 'debug']))
+      .optional()
+      .describe('Only messages of these levels (default: all).'),
+    reactOnly: zod
+      .boolean()
+      .optional()
+      .describe('Only React warnings (default: false).'),
+    component: zod
+      .string()
+      .optional()
+      .describe('Only React warnings that mention this component name.'),
+    limit: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Maximum number of most recent messages to return (default: 50).'),
+    clear: zod
+      .boolean()
+      .optional()
+      .describe('Empty the buffer after reading so the next call only shows new messages (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const {messages, total} = await context.listConsoleMessages(request.params);
+    if (messages.length === 0) {
+      response.appendResponseLine('No matching console messages.');
+      return;
+    }
+    response.appendResponseLine(
+      total > messages.length
+        ? `Showing the last ${messages.length} of ${total} console messages:`
+        : `${total} console message${total === 1 ? '' : 's'}:`,
+    );
+    for (const entry of messages) {
+      const tag = entry.react
+        ? ` [React ${entry.react.kind} warning${entry.react.components.length > 0 ? `: ${entry.react.components.join(' < ')}` : ''}]`
+        : '';
+      const [firstLine, ...rest] = entry.text.split('\n');
+      response.appendResponseLine(
+        `#${entry.id} ${entry.type}${tag}${formatLocation(entry)}: ${firstLine}`,
+      );
+      for (const line of rest.slice(0, 10)) {
+        response.appendResponseLine(`  ${line}`);
+      }
+      if (rest.length > 10) {
+        response.appendResponseLine(`  ... ${rest.length - 10} more lines`);
+      }
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import {
+  componentTargetSchema,
+  defineTool,
+  type ContextProviderInfo,
+} from './ToolDefinition.js';
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+function formatProvider(provider: ContextProviderInfo): string {
+  return provider.owner
+    ? `${provider.owner.name} (id ${provider.owner.id})`
+    : 'the root';
+}
+
+export const listContextProviders = defineTool({
+  name: 'list_context_providers',
+  description:
+    'List the React Context providers mounted on the page, or inside one component\'s subtree, with each context\'s displayName, its current value and the component that renders the provider. Scope to a subtree by id, or by a uid or backendDOMNodeId from take_snapshot.',
+  schema: {
+    ...componentTargetSchema,
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid} = request.params;
+    const providers = await context.listContextProviders({id, backendDOMNodeId, uid});
+    if (providers.length === 0) {
+      response.appendResponseLine('No Context providers found.');
+      return;
+    }
+    response.appendResponseLine(
+      `${providers.length} Context provider${providers.length === 1 ? '' : 's'}:`,
+    );
+    for (const provider of providers) {
+      response.appendResponseLine(
+        `- ${provider.context} provided by ${formatProvider(provider)}: ${formatValue(provider.value)}`,
+      );
+      if (provider.path) {
+        response.appendResponseLine(`  at ${provider.path}`);
+      }
+    }
+  },
+});
+
+export const getComponentContexts = defineTool({
+  name: 'get_component_contexts',
+  description:
+    'Show which React Contexts a component read in its last render (useContext, use, contextType or <Context.Consumer>), the value it got and which provider supplied it. Target the component by id, or by a uid or backendDOMNodeId from take_snapshot.',
+  schema: {
+    ...componentTargetSchema,
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid} = request.params;
+    const result = await context.getComponentContexts({id, backendDOMNodeId, uid});
+    response.appendResponseLine(`${result.name} (id ${result.id}, ${result.type})`);
+    if (result.contexts.length === 0) {
+      response.appendResponseLine('It did not read any Context in its last render.');
+      return;
+    }
+    for (const usage of result.contexts) {
+      const origin = usage.provider
+        ? `provided by ${formatProvider(usage.provider)}`
+        : 'default value, no provider above';
+      response.appendResponseLine(
+        `- ${usage.context}: ${formatValue(usage.value)} (${origin})`,
+      );
+    }
+  },
+});
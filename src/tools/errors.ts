@@ -0,0 +1,87 @@
+import {zod} from '../third_party/index.js';
+
+import {
+  componentTargetSchema,
+  defineTool,
+  type ReactErrorEntry,
+} from './ToolDefinition.js';
+
+export const getReactErrors = defineTool({
+  name: 'get_react_errors',
+  description:
+    'List the render errors React reported on the selected page, grouped by the component that threw: the error message, whether an error boundary caught it, the component stack and the source location where it was thrown. Errors are kept until the page navigates or reloads.',
+  schema: {
+    clear: zod
+      .boolean()
+      .optional()
+      .describe('Forget the returned errors so the next call only shows new ones (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const errors = await context.getReactErrors({clear: request.params.clear});
+    if (errors.length === 0) {
+      response.appendResponseLine('No React render errors were reported on this page.');
+      return;
+    }
+
+    const byComponent = new Map<string, ReactErrorEntry[]>();
+    for (const error of errors) {
+      const component = error.component ?? 'Unknown component';
+      byComponent.set(component, [...(byComponent.get(component) ?? []), error]);
+    }
+    const total = errors.reduce((sum, error) => sum + error.count, 0);
+    response.appendResponseLine(
+      `${total} React error${total === 1 ? '' : 's'} in ${byComponent.size} component${byComponent.size === 1 ? '' : 's'}:`,
+    );
+    for (const [component, entries] of byComponent) {
+      response.appendResponseLine('');
+      response.appendResponseLine(component);
+      for (const error of entries) {
+        const repeats = error.count > 1 ? ` (×${error.count})` : '';
+        const handling = error.caught
+          ? `caught by ${error.boundary ?? 'an error boundary'}`
+          : 'uncaught, the root was unmounted';
+        response.appendResponseLine(`- ${error.message}${repeats}, ${handling}`);
+        if (error.source?.fileName) {
+          response.appendResponseLine(
+            `  at ${error.source.fileName}:${error.source.lineNumber ?? '?'}:${error.source.columnNumber ?? '?'}`,
+          );
+        }
+        if (error.componentStack.length > 0) {
+          response.appendResponseLine(`  component stack: ${error.componentStack.join(' < ')}`);
+        }
+      }
+    }
+  },
+});
+
+export const forceError = defineTool({
+  name: 'force_error',
+  description:
+    'Force the error boundary at or above a component into its error state, to check error UIs without breaking the app, or release it again. Target the component (or the boundary itself) by id, or by a uid or backendDOMNodeId from take_snapshot. Requires a development build of React.',
+  schema: {
+    ...componentTargetSchema,
+    enabled: zod
+      .boolean()
+      .optional()
+      .describe('true (default) renders the error state; false resets the boundary.'),
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid, enabled} = request.params;
+    const result = await context.overrideBoundary(
+      {id, backendDOMNodeId, uid},
+      'error',
+      enabled ?? true,
+    );
+    const {boundary} = result;
+    // The boundary's children unmount, so the original target id stops
+    // resolving; point at the boundary for the release.
+    response.appendResponseLine(
+      result.forced
+        ? `${boundary.name} (id ${boundary.id}) is forced into its error state. Release it with force_error {"id": "${boundary.id}", "enabled": false}.`
+        : `${boundary.name} (id ${boundary.id}) is reset and renders its children again.`,
+    );
+    if (!result.rerendered) {
+      response.appendResponseLine('No React commit was observed within 1s.');
+    }
+  },
+});
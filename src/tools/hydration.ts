@@ -0,0 +1,103 @@
+import {zod} from '../third_party/index.js';
+
+import {
+  defineTool,
+  timeoutSchema,
+  type HydrationMismatch,
+} from './ToolDefinition.js';
+
+function describeMismatch(mismatch: HydrationMismatch): string {
+  switch (mismatch.kind) {
+    case 'text':
+      return `text differs: server "${mismatch.server}", client "${mismatch.client}"`;
+    case 'attribute':
+      return `attribute ${mismatch.attribute} differs: server ${JSON.stringify(mismatch.server ?? null)}, client ${JSON.stringify(mismatch.client ?? null)}`;
+    case 'element':
+      return `element differs: server ${mismatch.server}, client ${mismatch.client}`;
+    case 'missing':
+      return `server node missing on the client: ${mismatch.server}`;
+    case 'extra':
+      return `client node not in the server HTML: ${mismatch.client}`;
+  }
+}
+
+export const detectHydrationMismatches = defineTool({
+  name: 'detect_hydration_mismatches',
+  description:
+    'Load a URL in the selected page, keep the HTML the server sent and compare it with the DOM as React\'s hydration commit left it, so later client updates are not reported. This navigates the selected page, discarding its current state. Reports text, attribute and element differences under each React root, mapped to the component that rendered them and its source location, plus the hydration warnings React logged.',
+  schema: {
+    url: zod.string().describe('URL of the server-rendered page to load.'),
+    settleMs: zod
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe('Report once React has not committed for this long (default: 500).'),
+    maxMismatches: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Maximum number of differences to report (default: 50).'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {url, settleMs, maxMismatches, timeout} = request.params;
+    const report = await context.detectHydrationMismatches(url, {
+      settleMs,
+      maxMismatches,
+      timeout,
+    });
+
+    if (report.roots === 0) {
+      response.appendResponseLine(
+        report.clientOnlyRoots > 0
+          ? `${report.url} renders React only on the client; there is no server HTML to compare.`
+          : `No React roots were found on ${report.url}.`,
+      );
+    } else if (report.mismatches.length === 0) {
+      response.appendResponseLine(
+        `The hydrated DOM of ${report.url} matches the server HTML (${report.roots} root${report.roots === 1 ? '' : 's'} compared).`,
+      );
+    } else {
+      response.appendResponseLine(
+        `${report.mismatches.length}${report.truncated ? '+' : ''} hydration mismatch${report.mismatches.length === 1 ? '' : 'es'} on ${report.url}:`,
+      );
+      const byComponent = new Map<string, HydrationMismatch[]>();
+      for (const mismatch of report.mismatches) {
+        const key = mismatch.component
+          ? `${mismatch.component.name} (id ${mismatch.component.id})`
+          : 'Outside any component';
+        byComponent.set(key, [...(byComponent.get(key) ?? []), mismatch]);
+      }
+      for (const [component, mismatches] of byComponent) {
+        response.appendResponseLine('');
+        response.appendResponseLine(component);
+        const {source, component: owner} = mismatches[0];
+        if (owner?.path) {
+          response.appendResponseLine(`  path: ${owner.path}`);
+        }
+        if (source?.fileName) {
+          response.appendResponseLine(
+            `  source: ${source.fileName}:${source.lineNumber ?? '?'}:${source.columnNumber ?? '?'}`,
+          );
+        }
+        for (const mismatch of mismatches) {
+          response.appendResponseLine(`- ${mismatch.path}: ${describeMismatch(mismatch)}`);
+        }
+      }
+      if (report.truncated) {
+        response.appendResponseLine('');
+        response.appendResponseLine('More differences were found; raise maxMismatches to see them.');
+      }
+    }
+
+    if (report.warnings.length > 0) {
+      response.appendResponseLine('');
+      response.appendResponseLine(`React logged ${report.warnings.length} hydration warning${report.warnings.length === 1 ? '' : 's'}:`);
+      for (const warning of report.warnings) {
+        response.appendResponseLine(`- ${warning.text.split('\n')[0]}`);
+      }
+    }
+  },
+});
@@ -0,0 +1,164 @@
+import {zod} from '../third_party/index.js';
+
+import {formatChangeDescription} from './profiler.js';
+import {
+  defineTool,
+  elementTargetSchema,
+  timeoutSchema,
+  type Context,
+  type ElementTarget,
+  type InteractionAction,
+  type Response,
+} from './ToolDefinition.js';
+
+const MAX_LISTED_COMPONENTS = 20;
+
+function getTarget(params: ElementTarget): ElementTarget | undefined {
+  const {uid, backendDOMNodeId, role, name, id} = params;
+  if (uid === undefined && backendDOMNodeId === undefined && !role && !name && !id) {
+    return undefined;
+  }
+  return {uid, backendDOMNodeId, role, name, id};
+}
+
+/**
+ * Runs an interaction and reports which components re-rendered because of
+ * it, with how often and why.
+ */
+async function interact(
+  context: Context,
+  response: Response,
+  params: ElementTarget & {timeout?: number},
+  action: InteractionAction,
+  describe: (element?: string) => string,
+) {
+  const result = await context.interact(getTarget(params), action, {timeout: params.timeout});
+  response.appendResponseLine(`${describe(result.element)}.`);
+  if (result.navigatedTo) {
+    response.appendResponseLine(`The page navigated to ${result.navigatedTo}.`);
+    return;
+  }
+  const {session} = result;
+  if (!session || session.commits.length === 0) {
+    response.appendResponseLine('No React components re-rendered.');
+    return;
+  }
+
+  const components = new Map<string, {name: string; count: number; reasons: Set<string>}>();
+  for (const commit of session.commits) {
+    for (const render of commit.renders) {
+      const entry = components.get(render.id) ?? {name: render.name, count: 0, reasons: new Set()};
+      entry.count++;
+      entry.reasons.add(formatChangeDescription(render.reason));
+      components.set(render.id, entry);
+    }
+  }
+  response.appendResponseLine(
+    `${session.commits.length} React commit${session.commits.length === 1 ? '' : 's'}, ${components.size} component${components.size === 1 ? '' : 's'} rendered:`,
+  );
+  for (const [id, entry] of [...components].slice(0, MAX_LISTED_COMPONENTS)) {
+    const count = entry.count > 1 ? ` ×${entry.count}` : '';
+    const reasons = [...entry.reasons].filter(Boolean).join('; ');
+    response.appendResponseLine(`- ${entry.name} (id ${id})${count}${reasons ? `: ${reasons}` : ''}`);
+  }
+  if (components.size > MAX_LISTED_COMPONENTS) {
+    response.appendResponseLine(`... and ${components.size - MAX_LISTED_COMPONENTS} more`);
+  }
+}
+
+export const click = defineTool({
+  name: 'click',
+  description:
+    'Click an element and report which React components re-rendered as a result. Target it by snapshot uid, backendDOMNodeId, accessible role and name, or component id.',
+  schema: {
+    ...elementTargetSchema,
+    dblClick: zod.boolean().optional().describe('Double click instead (default: false).'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {dblClick} = request.params;
+    await interact(
+      context,
+      response,
+      request.params,
+      {type: 'click', double: dblClick},
+      element => `${dblClick ? 'Double clicked' : 'Clicked'} ${element}`,
+    );
+  },
+});
+
+export const hover = defineTool({
+  name: 'hover',
+  description:
+    'Move the mouse over an element and report which React components re-rendered as a result. Target it by snapshot uid, backendDOMNodeId, accessible role and name, or component id.',
+  schema: {
+    ...elementTargetSchema,
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    await interact(context, response, request.params, {type: 'hover'}, element => `Hovered ${element}`);
+  },
+});
+
+export const fill = defineTool({
+  name: 'fill',
+  description:
+    'Type a value into an input, textarea or contenteditable element, or choose it in a <select>, replacing what was there, and report which React components re-rendered as a result. Target it by snapshot uid, backendDOMNodeId, accessible role and name, or component id.',
+  schema: {
+    ...elementTargetSchema,
+    value: zod.string().describe('Value to fill in.'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    await interact(
+      context,
+      response,
+      request.params,
+      {type: 'fill', value: request.params.value},
+      element => `Filled ${element}`,
+    );
+  },
+});
+
+export const pressKey = defineTool({
+  name: 'press_key',
+  description:
+    'Press a key or key combination, e.g. "Enter", "Escape" or "Control+A", in the focused element or in a target element, and report which React components re-rendered as a result.',
+  schema: {
+    key: zod
+      .string()
+      .describe('Key name or combination joined with "+", e.g. "Enter", "Shift+Tab", "Control+A".'),
+    ...elementTargetSchema,
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {key} = request.params;
+    await interact(context, response, request.params, {type: 'press_key', key}, element =>
+      element ? `Pressed ${key} in ${element}` : `Pressed ${key}`,
+    );
+  },
+});
+
+export const selectOption = defineTool({
+  name: 'select_option',
+  description:
+    'Select options of a <select> element by value or label and report which React components re-rendered as a result. Target it by snapshot uid, backendDOMNodeId, accessible role and name, or component id.',
+  schema: {
+    ...elementTargetSchema,
+    values: zod
+      .array(zod.string())
+      .min(1)
+      .describe('Option values or labels to select. Pass several for a multiple select.'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {values} = request.params;
+    await interact(
+      context,
+      response,
+      request.params,
+      {type: 'select_option', values},
+      element => `Selected ${values.map(value => `"${value}"`).join(', ')} in ${element}`,
+    );
+  },
+});
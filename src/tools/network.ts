@@ -0,0 +1,120 @@
+import {zod} from '../third_party/index.js';
+
+import {defineTool, type NetworkRequestEntry} from './ToolDefinition.js';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatOutcome(entry: NetworkRequestEntry): string {
+  if (entry.failure) return `failed: ${entry.failure}`;
+  if (entry.status === undefined) return 'pending';
+  const parts = [`${entry.status}${entry.statusText ? ` ${entry.statusText}` : ''}`];
+  if (entry.durationMs !== undefined) parts.push(`${entry.durationMs}ms`);
+  if (entry.size !== undefined) parts.push(entry.fromCache ? 'cached' : formatSize(entry.size));
+  return parts.join(', ');
+}
+
+function formatComponent(component: NonNullable<NetworkRequestEntry['component']>): string {
+  return `${component.name} (id ${component.id}${component.via === 'stack' ? ', from stack' : ''})`;
+}
+
+export const listNetworkRequests = defineTool({
+  name: 'list_network_requests',
+  description:
+    'List network requests made by the selected page, oldest first: method, URL, status, duration and size. Fetch and XHR calls are attributed to the React component whose render or effect sent them when React was attached before they were made. Filter by resource type, URL substring or component name. The last 1000 requests per page are kept across navigations.',
+  schema: {
+    resourceTypes: zod
+      .array(zod.string())
+      .optional()
+      .describe('Only these resource types, e.g. ["fetch", "xhr"] or ["document", "script"] (default: all).'),
+    urlFilter: zod.string().optional().describe('Only requests whose URL contains this text.'),
+    component: zod
+      .string()
+      .optional()
+      .describe('Only requests attributed to this component name.'),
+    limit: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Maximum number of most recent requests to return (default: 50).'),
+    clear: zod
+      .boolean()
+      .optional()
+      .describe('Empty the log after reading so the next call only shows new requests (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const {requests, total} = await context.listNetworkRequests(request.params);
+    if (requests.length === 0) {
+      response.appendResponseLine('No matching network requests.');
+      return;
+    }
+    response.appendResponseLine(
+      total > requests.length
+        ? `Showing the last ${requests.length} of ${total} network requests:`
+        : `${total} network request${total === 1 ? '' : 's'}:`,
+    );
+    for (const entry of requests) {
+      response.appendResponseLine(
+        `#${entry.id} ${entry.method} ${entry.url} [${entry.resourceType}] ${formatOutcome(entry)}${entry.component ? ` <- ${formatComponent(entry.component)}` : ''}`,
+      );
+    }
+    response.appendResponseLine('Use get_network_request with an id for headers, stack and bodies.');
+  },
+});
+
+export const getNetworkRequest = defineTool({
+  name: 'get_network_request',
+  description:
+    'Show one logged network request: headers, timing, size, the JS stack that sent it, the component it is attributed to and optionally its request and response bodies.',
+  schema: {
+    id: zod.number().int().describe('Request id from list_network_requests.'),
+    includeBodies: zod
+      .boolean()
+      .optional()
+      .describe('Include text request and response bodies, up to 10000 characters each (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const details = await context.getNetworkRequest(
+      request.params.id,
+      request.params.includeBodies ?? false,
+    );
+    response.appendResponseLine(`#${details.id} ${details.method} ${details.url}`);
+    response.appendResponseLine(`Type: ${details.resourceType}${details.mimeType ? `, ${details.mimeType}` : ''}`);
+    response.appendResponseLine(`Result: ${formatOutcome(details)}`);
+    response.appendResponseLine(`Started: ${new Date(details.startTime).toISOString()}`);
+    if (details.component) {
+      response.appendResponseLine(`Component: ${formatComponent(details.component)}`);
+    }
+    if (details.stack.length > 0) {
+      response.appendResponseLine('Stack:');
+      for (const frame of details.stack.slice(0, 15)) {
+        response.appendResponseLine(`  at ${frame}`);
+      }
+    } else if (details.initiator) {
+      response.appendResponseLine(`Initiator: ${details.initiator}`);
+    }
+
+    response.appendResponseLine('Request headers:');
+    for (const [name, value] of Object.entries(details.requestHeaders)) {
+      response.appendResponseLine(`  ${name}: ${value}`);
+    }
+    if (details.responseHeaders) {
+      response.appendResponseLine('Response headers:');
+      for (const [name, value] of Object.entries(details.responseHeaders)) {
+        response.appendResponseLine(`  ${name}: ${value}`);
+      }
+    }
+    if (details.requestBody !== undefined) {
+      response.appendResponseLine('Request body:');
+      response.appendResponseLine(details.requestBody);
+    }
+    if (details.responseBody !== undefined) {
+      response.appendResponseLine('Response body:');
+      response.appendResponseLine(details.responseBody);
+    }
+  },
+});
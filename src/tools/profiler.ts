@@ -0,0 +1,186 @@
+import {zod} from '../third_party/index.js';
+
+import {
+  defineTool,
+  type ChangeDescription,
+  type ProfilingSession,
+} from './ToolDefinition.js';
+
+const MAX_RANKED_COMPONENTS = 25;
+const MAX_LISTED_COMMITS = 20;
+const BAR_WIDTH = 20;
+
+export function formatChangeDescription(reason: ChangeDescription): string {
+  if (reason.isFirstMount) {
+    return 'mounted';
+  }
+  const parts: string[] = [];
+  if (reason.props.length > 0) {
+    parts.push(`props changed: ${reason.props.join(', ')}`);
+  }
+  if (reason.hooks.length > 0) {
+    const hooks = reason.hooks.map(index => `#${index}`);
+    parts.push(`hooks changed: ${hooks.join(', ')}`);
+  }
+  if (reason.state) {
+    parts.push('state changed');
+  }
+  if (reason.contexts.length > 0) {
+    parts.push(`context changed: ${reason.contexts.join(', ')}`);
+  }
+  if (reason.parentRendered) {
+    parts.push('parent rendered');
+  }
+  return parts.join('; ');
+}
+
+function formatMs(value: number): string {
+  return `${value.toFixed(1)}ms`;
+}
+
+interface ComponentStats {
+  id: string;
+  name: string;
+  renders: number;
+  selfDuration: number;
+  actualDuration: number;
+  reasons: Map<string, number>;
+}
+
+function countReason(reasons: Map<string, number>, reason: string) {
+  reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+}
+
+/**
+ * Aggregates a profiling session into a ranking of components by self time
+ * (or render count when the React build has no profiling timers), drawn as
+ * bars so the hottest components stand out like in a flamegraph.
+ */
+export function formatProfilingSummary(session: ProfilingSession): string[] {
+  const stats = new Map<string, ComponentStats>();
+  let renderCount = 0;
+  let hasTimings = false;
+
+  for (const commit of session.commits) {
+    for (const render of commit.renders) {
+      renderCount++;
+      let entry = stats.get(render.id);
+      if (!entry) {
+        entry = {
+          id: render.id,
+          name: render.name,
+          renders: 0,
+          selfDuration: 0,
+          actualDuration: 0,
+          reasons: new Map(),
+        };
+        stats.set(render.id, entry);
+      }
+      entry.renders++;
+      if (render.selfDuration !== undefined) {
+        hasTimings = true;
+        entry.selfDuration += render.selfDuration;
+        entry.actualDuration += render.actualDuration ?? 0;
+      }
+
+      const {reason} = render;
+      const {reasons} = entry;
+      if (reason.isFirstMount) countReason(reasons, 'mount');
+      for (const prop of reason.props) countReason(reasons, `prop ${prop}`);
+      for (const hook of reason.hooks) countReason(reasons, `hook #${hook}`);
+      if (reason.state) countReason(reasons, 'state');
+      for (const name of reason.contexts) countReason(reasons, `context ${name}`);
+      if (reason.parentRendered) countReason(reasons, 'parent rendered');
+    }
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    `Profiled ${formatMs(session.duration)}: ${session.commits.length} commits, ${renderCount} component renders.`,
+  );
+  if (session.truncated) {
+    lines.push('Recording limit reached; later commits were dropped.');
+  }
+  if (session.commits.length === 0) {
+    lines.push('No React commits were recorded.');
+    return lines;
+  }
+
+  const metric = (entry: ComponentStats) =>
+    hasTimings ? entry.selfDuration : entry.renders;
+  const ranked = [...stats.values()].sort((a, b) => metric(b) - metric(a));
+  const max = Math.max(metric(ranked[0]), Number.EPSILON);
+
+  lines.push('');
+  lines.push(
+    hasTimings
+      ? 'Components by self render time:'
+      : 'Components by render count (this React build does not report render durations):',
+  );
+  ranked.slice(0, MAX_RANKED_COMPONENTS).forEach((entry, idx) => {
+    const bar = '█'.repeat(Math.max(1, Math.round((metric(entry) / max) * BAR_WIDTH)));
+    const timing = hasTimings
+      ? ` self ${formatMs(entry.selfDuration)}, total ${formatMs(entry.actualDuration)},`
+      : '';
+    const reasons = [...entry.reasons.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => `${reason} ×${count}`)
+      .join(', ');
+    lines.push(
+      `${String(idx + 1).padStart(2)}. ${bar.padEnd(BAR_WIDTH)} ${entry.name} (id ${entry.id})${timing} ${entry.renders} render${entry.renders === 1 ? '' : 's'} [${reasons}]`,
+    );
+  });
+  if (ranked.length > MAX_RANKED_COMPONENTS) {
+    lines.push(`... ${ranked.length - MAX_RANKED_COMPONENTS} more components`);
+  }
+
+  lines.push('');
+  lines.push('Commits:');
+  for (const commit of session.commits.slice(0, MAX_LISTED_COMMITS)) {
+    const names = commit.renders.slice(0, 5).map(render => render.name);
+    const more = commit.renders.length > 5 ? `, +${commit.renders.length - 5} more` : '';
+    const duration = commit.duration !== undefined ? `, ${formatMs(commit.duration)}` : '';
+    lines.push(
+      `#${commit.index} at ${formatMs(commit.timestamp)}${duration}, ${commit.renders.length} renders: ${names.join(', ')}${more}`,
+    );
+  }
+  if (session.commits.length > MAX_LISTED_COMMITS) {
+    lines.push(`... ${session.commits.length - MAX_LISTED_COMMITS} more commits`);
+  }
+  return lines;
+}
+
+export const startProfiling = defineTool({
+  name: 'start_profiling',
+  description:
+    'Start recording every React commit on the selected page: which components rendered, how long they took and why they rendered. Call stop_profiling to get the results.',
+  schema: {},
+  handler: async (_request, response, context) => {
+    await context.startProfiling();
+    response.appendResponseLine(
+      'Profiling started. Interact with the page, then call stop_profiling.',
+    );
+  },
+});
+
+export const stopProfiling = defineTool({
+  name: 'stop_profiling',
+  description:
+    'Stop the React profiler and report the recorded commits, either as a ranking of components by render time with render reasons, or as raw JSON.',
+  schema: {
+    format: zod
+      .enum(['summary', 'json'])
+      .optional()
+      .describe('summary (default): ranked text report. json: every recorded commit and render.'),
+  },
+  handler: async (request, response, context) => {
+    const session = await context.stopProfiling();
+    if (request.params.format === 'json') {
+      response.appendResponseLine(JSON.stringify(session, null, 2));
+      return;
+    }
+    for (const line of formatProfilingSummary(session)) {
+      response.appendResponseLine(line);
+    }
+  },
+});
@@ -1,5 +1,5 @@
 import {zod} from '../third_party/index.js';
-import {defineTool} from './ToolDefinition.js';
+import {componentTargetSchema, defineTool} from './ToolDefinition.js';
 import {
   listPages,
   selectPage,
@@ -7,6 +7,21 @@ import {
   newPage,
   navigatePage,
 } from './pages.js';
+import {
+  formatChangeDescription,
+  startProfiling,
+  stopProfiling,
+} from './profiler.js';
+import {listConsoleMessages} from './console.js';
+import {getComponentContexts, listContextProviders} from './context.js';
+import {forceError, getReactErrors} from './errors.js';
+import {detectHydrationMismatches} from './hydration.js';
+import {click, fill, hover, pressKey, selectOption} from './input.js';
+import {getNetworkRequest, listNetworkRequests} from './network.js';
+import {getComponentSource} from './source.js';
+import {diffSnapshot, takeSnapshot} from './snapshot.js';
+import {forceSuspense, listSuspenseBoundaries} from './suspense.js';
+import {waitForComponent, waitForIdle, waitForSuspense, waitForText} from './wait.js';
 
 export const ensureReactAttached = defineTool({
   name: 'ensure_react_attached',
@@ -118,12 +133,15 @@ export const listComponents = defineTool({
 export const getComponent = defineTool({
   name: 'get_component',
   description:
-    'Inspect a component by id returned from list_components. Includes props/state/source if available.',
+    'Inspect a component by id returned from list_components, or by the uid or backendDOMNodeId of an element it rendered. Includes props, decoded hooks or class state, source and owners if available.',
   schema: {
-    id: zod.string().describe('Component id as returned by list_components.'),
+    ...componentTargetSchema,
   },
   handler: async (request, response, context) => {
-    const data = await context.getComponentById(request.params.id);
+    const {id, backendDOMNodeId, uid} = request.params;
+    const data = await context.getComponentById(
+      await context.resolveComponentId({id, backendDOMNodeId, uid}),
+    );
     if (!data) {
       response.appendResponseLine('Component not found.');
       return;
@@ -135,55 +153,177 @@ export const getComponent = defineTool({
 export const highlightComponent = defineTool({
   name: 'highlight_component',
   description:
-    'Highlight a component in the page using its id from list_components.',
+    'Highlight a component in the page using its id from list_components, or the uid or backendDOMNodeId of an element it rendered. Draws a labeled overlay (name, size, source location) over every DOM node the component renders.',
   schema: {
-    id: zod.string().describe('Component id as returned by list_components.'),
+    ...componentTargetSchema,
+    screenshot: zod
+      .boolean()
+      .optional()
+      .describe('Attach a screenshot of the page with the overlay (default: false).'),
+    durationMs: zod
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        'How long the overlay stays on the page in milliseconds (default: 3000). 0 keeps it until the next highlight.',
+      ),
   },
   handler: async (request, response, context) => {
-    const result = await context.highlightComponent(request.params.id);
+    const {id, backendDOMNodeId, uid} = request.params;
+    const result = await context.highlightComponent(
+      await context.resolveComponentId({id, backendDOMNodeId, uid}),
+      {
+        screenshot: request.params.screenshot,
+        durationMs: request.params.durationMs,
+      },
+    );
     response.appendResponseLine(
       result.ok
         ? `Highlighted: ${result.message}`
         : `Failed to highlight: ${result.message}`,
     );
+    if (result.screenshot) {
+      response.attachImage({data: result.screenshot, mimeType: 'image/png'});
+    }
   },
 });
 
-export const takeSnapshot = defineTool({
-  name: 'take_snapshot',
+export const editComponent = defineTool({
+  name: 'edit_component',
   description:
-    'Take an accessibility tree snapshot of the current page. Returns a hierarchical tree with accessible roles, names, and DOM node IDs (backendDOMNodeId) for each element. Use this to discover UI elements and get their IDs for component inspection.',
+    'Change a live component and report the re-rendered result: override a prop, set a useState hook value, or a useReducer value in development builds (by hook index from get_component), or call setState on a class component. Target the component by id, or by a uid or backendDOMNodeId from take_snapshot.',
   schema: {
-    verbose: zod.boolean().optional().describe('Include all elements (true) or only interesting/interactive elements (false, default)'),
+    ...componentTargetSchema,
+    kind: zod
+      .enum(['prop', 'hook', 'state'])
+      .describe(
+        'prop: override a prop (development builds). hook: set a useState value, or a useReducer value (development builds). state: setState on a class component.',
+      ),
+    path: zod
+      .string()
+      .optional()
+      .describe(
+        'Dot-separated path to the value, e.g. "isLoading" or "user.name". Required for props; omit to replace the whole hook value or state.',
+      ),
+    hookIndex: zod
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Hook index as reported in the hooks list (kind=hook only).'),
+    value: zod
+      .unknown()
+      .refine(value => value !== undefined, {message: 'value is required'})
+      .describe('The new value.'),
   },
   handler: async (request, response, context) => {
-    const snapshot = await context.takeSnapshot(request.params.verbose ?? false);
-    if (!snapshot) {
-      response.appendResponseLine('No snapshot available.');
-      return;
+    const {id, backendDOMNodeId, uid, kind, path, hookIndex, value} = request.params;
+    const result = await context.editComponent(
+      {id, backendDOMNodeId, uid},
+      {
+        kind,
+        path: path ? path.split('.').filter(Boolean) : [],
+        hookIndex,
+        value,
+      },
+    );
+    const target =
+      kind === 'hook' ? `hook #${hookIndex}${path ? ` at ${path}` : ''}` : `${kind} ${path ?? ''}`.trim();
+    response.appendResponseLine(
+      `Updated ${target} of ${result.component.name} (id ${result.component.id}).`,
+    );
+    response.appendResponseLine(
+      result.rerendered
+        ? 'React committed an update. Current component:'
+        : 'No React commit was observed within 1s. Current component:',
+    );
+    response.appendResponseLine(JSON.stringify(result.component, null, 2));
+  },
+});
+
+export const whyDidRender = defineTool({
+  name: 'why_did_render',
+  description:
+    'Explain why a component rendered in the last commit by comparing it with its previous version: which props keys, hook indices (with hook names), class state or contexts changed, with previous and next values. Target the component by id, or by a uid or backendDOMNodeId from take_snapshot.',
+  schema: {
+    ...componentTargetSchema,
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid} = request.params;
+    const result = await context.explainRender({id, backendDOMNodeId, uid});
+    response.appendResponseLine(`${result.name} (id ${result.id}, ${result.type})`);
+    if (!result.renderedInLastCommit) {
+      response.appendResponseLine(
+        'It did not render in the most recent commit. Its last render compared with the one before:',
+      );
+    }
+    response.appendResponseLine(`Reason: ${formatChangeDescription(result.reason)}`);
+    for (const change of result.changes) {
+      const previous = JSON.stringify(change.previous) ?? 'undefined';
+      const next = JSON.stringify(change.next) ?? 'undefined';
+      const note = previous === next ? ' (new reference, same value)' : '';
+      response.appendResponseLine(
+        `- ${change.kind} ${change.name}: ${previous} -> ${next}${note}`,
+      );
     }
-    response.appendResponseLine(JSON.stringify(snapshot, null, 2));
   },
 });
 
 export const getComponentMap = defineTool({
   name: 'get_component_map',
   description:
-    'Get a complete component map of the current page as a markdown tree. Returns only React components with their source locations in an indented tree format (e.g., "Button (src/components/Button.tsx:10:5)"). This is the primary tool for understanding React application structure at a glance.',
+    'Get a complete component map of the current page as a markdown tree. Returns only React components with their source locations in an indented tree format (e.g., "Button (src/components/Button.tsx:10:5)"). This is the primary tool for understanding React application structure at a glance. On large apps, pass id, backendDOMNodeId or name to map a single subtree and maxDepth/maxLines to bound the output.',
   schema: {
     verbose: zod.boolean().optional().describe('Include all DOM elements (true, default) or only interesting/interactive elements (false)'),
-    includeState: zod.boolean().optional().describe('Include component state (default: false, can be noisy)'),
+    includeState: zod.boolean().optional().describe('Include component state and hooks (default: false, can be noisy). Custom hook names are only shown by get_component.'),
+    format: zod
+      .enum(['text', 'json'])
+      .optional()
+      .describe(
+        'text (default): indented tree. json: nested nodes with name, type, key, props summary, a11y role/name, backendDOMNodeId and source.',
+      ),
+    ...componentTargetSchema,
+    name: zod
+      .string()
+      .optional()
+      .describe('Map only the subtrees of components with this name. Ignored when id or backendDOMNodeId is given.'),
+    maxDepth: zod
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('Levels below the top-level nodes to include. Deeper children are replaced by an "N more children elided" marker.'),
+    maxLines: zod
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('Maximum number of nodes to include. The rest are replaced by "N more children elided" markers.'),
   },
   handler: async (request, response, context) => {
-    const componentMap = await context.getComponentMap(
-      request.params.verbose ?? true,
-      request.params.includeState ?? false,
-    );
+    const {verbose, includeState, format, id, backendDOMNodeId, uid, name, maxDepth, maxLines} =
+      request.params;
+    const componentMap = await context.getComponentMap({
+      verbose: verbose ?? true,
+      includeState: includeState ?? false,
+      format: format ?? 'text',
+      root: {id, backendDOMNodeId, uid, name},
+      maxDepth,
+      maxLines,
+    });
     if (!componentMap) {
-      response.appendResponseLine('No component map available.');
+      response.appendResponseLine(
+        format === 'json'
+          ? JSON.stringify({error: 'No component map available.'}, null, 2)
+          : 'No component map available.',
+      );
       return;
     }
-    response.appendResponseLine(componentMap);
+    if (componentMap.mapId && format !== 'json') {
+      response.appendResponseLine(`Component map ${componentMap.mapId}:`);
+    }
+    response.appendResponseLine(componentMap.output);
   },
 });
 
@@ -868,171 +1008,27 @@ export const getReactComponentFromSnapshot = defineTool({
 
 export const getReactComponentFromBackendNodeId = defineTool({
   name: 'get_react_component_from_backend_node_id',
-  description: 'Get React component information for a UI element using its Chrome DevTools Protocol node ID. Faster and more deterministic than accessible name lookup. Returns component name, type, props, state, source location, and owner chain. Use backendDOMNodeId from take_snapshot.',
+  description: 'Get React component information for a UI element using its Chrome DevTools Protocol node ID. Faster and more deterministic than accessible name lookup. Returns component id, name, type, props, decoded hooks (function components) or state (class components), source location, and owner chain. Use a backendDOMNodeId or uid from take_snapshot.',
   schema: {
-    backendDOMNodeId: zod.number().describe('Backend DOM node ID from the accessibility tree snapshot'),
+    backendDOMNodeId: zod.number().optional().describe('Backend DOM node ID from the accessibility tree snapshot'),
+    uid: zod.string().optional().describe('Or an element uid from the latest take_snapshot.'),
   },
   handler: async (request, response, context) => {
     await context.ensureReactAttached();
 
-    const {backendDOMNodeId} = request.params;
-    const page = (context as any).getSelectedPage();
+    const {backendDOMNodeId, uid} = request.params;
 
     try {
-      const client = (page as any)._client();
-
-      // Enable required CDP domains
-      await client.send('DOM.enable');
-      await client.send('DOM.getDocument');
-
-      // Resolve backendNodeId to RemoteObject
-      const {object} = await client.send('DOM.resolveNode', {
-        backendNodeId: backendDOMNodeId,
-      });
-
-      if (!object || !object.objectId) {
-        response.appendResponseLine(JSON.stringify({
-          success: false,
-          error: 'Failed to resolve backendNodeId to DOM element',
-          backendDOMNodeId,
-        }, null, 2));
-        return;
-      }
-
-      // Extract React component data using the same logic as ARIA approach
-      const result = await client.send('Runtime.callFunctionOn', {
-        objectId: object.objectId,
-        functionDeclaration: `function() {
-          const targetElement = this;
-
-          if (!targetElement) {
-            return {success: false, error: 'Element is null'};
-          }
-
-          // Get fiber from element
-          const keys = Object.keys(targetElement);
-          const fiberKey = keys.find(k => k.startsWith('__reactFiber'));
-          if (!fiberKey) {
-            return {success: false, error: 'Element has no React fiber'};
-          }
-
-          let fiber = targetElement[fiberKey];
-          let maxSteps = 20;
-          while (fiber && maxSteps > 0) {
-            maxSteps--;
-            if ([0, 1, 11, 15].includes(fiber.tag)) {
-              break;
-            }
-            fiber = fiber.return;
-          }
-
-          if (!fiber) {
-            return {success: false, error: 'No React component found in fiber tree'};
-          }
-
-          // Helper functions
-          const getComponentName = (fiber) => {
-            if (fiber.type?.displayName) return fiber.type.displayName;
-            switch (fiber.tag) {
-              case 0:
-              case 1:
-                return fiber.type?.name || fiber.elementType?.name || 'Anonymous';
-              case 11:
-                return fiber.type?.render?.displayName || fiber.type?.render?.name || 'ForwardRef';
-              case 15:
-                return fiber.type?.type?.displayName || fiber.type?.type?.name || 'Memo';
-              default:
-                return 'Unknown';
-            }
-          };
-
-          const getComponentType = (tag) => {
-            const types = {
-              0: 'FunctionComponent',
-              1: 'ClassComponent',
-              11: 'ForwardRef',
-              15: 'MemoComponent',
-            };
-            return types[tag] || 'UnknownTag(' + tag + ')';
-          };
-
-          const safeSerialize = (obj, maxDepth, seen) => {
-            if (maxDepth === undefined) maxDepth = 3;
-            if (seen === undefined) seen = new WeakSet();
-            if (obj === null || obj === undefined) return obj;
-            if (typeof obj !== 'object') return obj;
-            if (seen.has(obj)) return '[Circular]';
-            seen.add(obj);
-            if (maxDepth <= 0) return '[Max Depth]';
-            if (Array.isArray(obj)) return obj.slice(0, 100).map(item => safeSerialize(item, maxDepth - 1, seen));
-            if (obj.$$typeof) return '[React Element]';
-            if (obj instanceof Node) return '[DOM Node]';
-            if (typeof obj === 'function') return '[Function: ' + (obj.name || 'anonymous') + ']';
-            const result = {};
-            const entries = Object.entries(obj).slice(0, 50);
-            for (let i = 0; i < entries.length; i++) {
-              const key = entries[i][0];
-              const value = entries[i][1];
-              if (key.startsWith('__react')) continue;
-              result[key] = safeSerialize(value, maxDepth - 1, seen);
-            }
-            return result;
-          };
-
-          const extractSource = (fiber) => {
-            const props = fiber.memoizedProps;
-            if (!props) return null;
-            const fileName = props['data-inspector-relative-path'];
-            const lineNumber = props['data-inspector-line'];
-            const columnNumber = props['data-inspector-column'];
-            if (fileName || lineNumber || columnNumber) {
-              return {
-                fileName: fileName || undefined,
-                lineNumber: lineNumber ? parseInt(lineNumber, 10) : undefined,
-                columnNumber: columnNumber ? parseInt(columnNumber, 10) : undefined,
-              };
-            }
-            return null;
-          };
-
-          // Extract owners
-          const owners = [];
-          let current = fiber.return;
-          let maxOwners = 10;
-          while (current && maxOwners > 0) {
-            if ([0, 1, 11, 15].includes(current.tag)) {
-              const name = getComponentName(current);
-              const type = getComponentType(current.tag);
-              const source = extractSource(current);
-              const owner = {name: name, type: type};
-              if (source) owner.source = source;
-              owners.push(owner);
-              maxOwners--;
-            }
-            current = current.return;
-          }
-
-          return {
-            success: true,
-            component: {
-              name: getComponentName(fiber),
-              type: getComponentType(fiber.tag),
-              props: fiber.memoizedProps ? safeSerialize(fiber.memoizedProps, 3) : null,
-              state: fiber.memoizedState ? safeSerialize(fiber.memoizedState, 2) : null,
-              source: extractSource(fiber),
-              owners: owners,
-            },
-          };
-        }`,
-        returnByValue: true,
-      });
-
-      response.appendResponseLine(JSON.stringify(result.result.value, null, 2));
+      const component = await context.getComponentByBackendNodeId({backendDOMNodeId, uid});
+      response.appendResponseLine(JSON.stringify({
+        success: true,
+        component,
+      }, null, 2));
     } catch (error: any) {
       response.appendResponseLine(JSON.stringify({
         success: false,
         error: error.message,
-        stack: error.stack,
+        ...(uid !== undefined ? {uid} : {backendDOMNodeId}),
       }, null, 2));
     }
   },
@@ -1615,7 +1611,7 @@ export const testCdpExtractFiber = defineTool({
 });
 
 // Production tools only - debug and test tools excluded
-// Removed: ensureReactAttached, listReactRoots, listComponents, getComponent, highlightComponent, getReactComponentFromSnapshot
+// Removed: ensureReactAttached, listReactRoots, getReactComponentFromSnapshot
 // These are kept as internal utilities but not exposed as MCP tools
 export const tools = [
   // Page management tools
@@ -1624,8 +1620,36 @@ export const tools = [
   closePage,
   newPage,
   navigatePage,
+  click,
+  hover,
+  fill,
+  pressKey,
+  selectOption,
+  waitForComponent,
+  waitForSuspense,
+  waitForIdle,
+  waitForText,
   // React DevTools tools
   takeSnapshot,
+  diffSnapshot,
   getComponentMap,
   getReactComponentFromBackendNodeId,
+  listComponents,
+  getComponent,
+  highlightComponent,
+  editComponent,
+  whyDidRender,
+  listContextProviders,
+  getComponentContexts,
+  listSuspenseBoundaries,
+  forceSuspense,
+  forceError,
+  getReactErrors,
+  detectHydrationMismatches,
+  listConsoleMessages,
+  listNetworkRequests,
+  getNetworkRequest,
+  getComponentSource,
+  startProfiling,
+  stopProfiling,
 ];
@@ -0,0 +1,156 @@
+import {zod} from '../third_party/index.js';
+import {formatSnapshotText} from '../snapshotFormat.js';
+
+import {
+  defineTool,
+  type SnapshotDiffEntry,
+  type SnapshotNode,
+} from './ToolDefinition.js';
+
+// Entries listed per category by diff_snapshot.
+const MAX_DIFF_ENTRIES = 50;
+
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'scrollbar',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem',
+]);
+
+function isInteractive(node: SnapshotNode): boolean {
+  if (node.role && INTERACTIVE_ROLES.has(node.role)) {
+    return true;
+  }
+  // Focusable elements with an unusual role, e.g. a div with tabIndex.
+  return Boolean(node.focusable) && node.role !== 'RootWebArea' && !node.disabled;
+}
+
+/**
+ * Keeps the root and the interactive nodes, nesting each under its nearest
+ * interactive ancestor.
+ */
+export function filterInteractive(root: SnapshotNode): SnapshotNode {
+  const collect = (node: SnapshotNode): SnapshotNode[] =>
+    (node.children ?? []).flatMap(child => {
+      const children = collect(child);
+      if (!isInteractive(child)) {
+        return children;
+      }
+      const {children: _children, ...rest} = child;
+      return [children.length > 0 ? {...rest, children} : rest];
+    });
+  const {children: _children, ...rest} = root;
+  const children = collect(root);
+  return children.length > 0 ? {...rest, children} : rest;
+}
+
+export const takeSnapshot = defineTool({
+  name: 'take_snapshot',
+  description:
+    'Take an accessibility tree snapshot of the current page, one line per element: role "name" [uid] and state flags such as focused, disabled or checked. The uids are targets for the interaction and inspection tools until the next snapshot. Use format "json" for the full tree with backendDOMNodeIds.',
+  schema: {
+    verbose: zod.boolean().optional().describe('Include all elements (true) or only interesting/interactive elements (false, default)'),
+    interactiveOnly: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Only keep elements a user can act on: buttons, links, form fields, tabs, menu items and other focusable elements (default: false).',
+      ),
+    format: zod
+      .enum(['text', 'json'])
+      .optional()
+      .describe('"text" (default) for a compact outline, "json" for the full tree.'),
+  },
+  handler: async (request, response, context) => {
+    const snapshot = await context.takeSnapshot(request.params.verbose ?? false);
+    if (!snapshot) {
+      response.appendResponseLine('No snapshot available.');
+      return;
+    }
+    const root = request.params.interactiveOnly ? filterInteractive(snapshot.root) : snapshot.root;
+    if (request.params.format === 'json') {
+      response.appendResponseLine(JSON.stringify({...snapshot, root}, null, 2));
+      return;
+    }
+    response.appendResponseLine(`Snapshot ${snapshot.snapshotId}:`);
+    response.appendResponseLine(formatSnapshotText(root));
+  },
+});
+
+function formatDiffValue(value: unknown): string {
+  return value === undefined ? 'unset' : JSON.stringify(value);
+}
+
+function formatDiffEntry(entry: SnapshotDiffEntry): string[] {
+  const lines = [`- ${entry.node}${entry.path.length > 0 ? ` in ${entry.path.join(' > ')}` : ''}`];
+  for (const change of entry.changes ?? []) {
+    lines.push(
+      `  ${change.property}: ${formatDiffValue(change.before)} -> ${formatDiffValue(change.after)}`,
+    );
+  }
+  return lines;
+}
+
+export const diffSnapshot = defineTool({
+  name: 'diff_snapshot',
+  description:
+    'Compare two accessibility snapshots or two component maps of the selected page and list the added, removed and changed nodes: accessibility states such as expanded, checked or disabled, and component props and hook values. Compares the latest take_snapshot (or get_component_map) with a new one unless from/to name stored ids; the last 10 of each are kept per page.',
+  schema: {
+    kind: zod
+      .enum(['accessibility', 'components'])
+      .optional()
+      .describe('"accessibility" (default) compares take_snapshot results, "components" get_component_map results.'),
+    from: zod
+      .string()
+      .optional()
+      .describe('Id of the earlier snapshot or component map (default: the latest).'),
+    to: zod
+      .string()
+      .optional()
+      .describe('Id of the later one. Omit to take a new one now with the same options as "from".'),
+  },
+  handler: async (request, response, context) => {
+    const {kind = 'accessibility', from, to} = request.params;
+    const diff = await context.diffSnapshot({kind, from, to});
+    const label = kind === 'accessibility' ? 'Snapshot' : 'Component map';
+    const {added, removed, changed} = diff;
+    if (added.length + removed.length + changed.length === 0) {
+      response.appendResponseLine(`${label} ${diff.to} is unchanged from ${diff.from}.`);
+      return;
+    }
+    response.appendResponseLine(
+      `${label} ${diff.from} -> ${diff.to}: ${added.length} added, ${removed.length} removed, ${changed.length} changed.`,
+    );
+    for (const [title, entries] of [
+      ['Added', added],
+      ['Removed', removed],
+      ['Changed', changed],
+    ] as const) {
+      if (entries.length === 0) {
+        continue;
+      }
+      response.appendResponseLine('');
+      response.appendResponseLine(`${title}:`);
+      for (const entry of entries.slice(0, MAX_DIFF_ENTRIES)) {
+        formatDiffEntry(entry).forEach(line => response.appendResponseLine(line));
+      }
+      if (entries.length > MAX_DIFF_ENTRIES) {
+        response.appendResponseLine(`... ${entries.length - MAX_DIFF_ENTRIES} more`);
+      }
+    }
+  },
+});
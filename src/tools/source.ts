@@ -0,0 +1,58 @@
+import {zod} from '../third_party/index.js';
+
+import {componentTargetSchema, defineTool} from './ToolDefinition.js';
+
+export const getComponentSource = defineTool({
+  name: 'get_component_source',
+  description:
+    'Read the source code around a component\'s source location from the project on disk, optionally opening it in the editor. Target the component by id, or by a uid or backendDOMNodeId from take_snapshot. Files are only read from inside the project root given with --projectRoot; without it, only the source location is returned.',
+  schema: {
+    ...componentTargetSchema,
+    contextLines: zod
+      .number()
+      .int()
+      .min(0)
+      .max(200)
+      .optional()
+      .describe('Lines to show before and after the source line (default: 10).'),
+    openInEditor: zod
+      .boolean()
+      .optional()
+      .describe('Also open the file at the source line in $REACT_EDITOR or $EDITOR (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid, contextLines, openInEditor} = request.params;
+    const {component, snippet, editorCommand} = await context.getComponentSource(
+      {id, backendDOMNodeId, uid},
+      {contextLines: contextLines ?? 10, openInEditor},
+    );
+
+    if (!snippet) {
+      const {fileName, lineNumber, columnNumber} = component.source!;
+      response.appendResponseLine(
+        `${component.name} (id ${component.id}) at ${fileName}:${lineNumber ?? '?'}${columnNumber ? `:${columnNumber}` : ''}`,
+      );
+      response.appendResponseLine(
+        'Start the server with --projectRoot <path> to read source files from the project.',
+      );
+      return;
+    }
+    response.appendResponseLine(
+      `${component.name} (id ${component.id}) at ${snippet.fileName}:${snippet.lineNumber}${
+        snippet.columnNumber ? `:${snippet.columnNumber}` : ''
+      }`,
+    );
+    response.appendResponseLine('```');
+    const width = String(snippet.startLine + snippet.lines.length - 1).length;
+    snippet.lines.forEach((line, idx) => {
+      const lineNumber = snippet.startLine + idx;
+      const marker = lineNumber === snippet.lineNumber ? '>' : ' ';
+      response.appendResponseLine(`${marker}${String(lineNumber).padStart(width)} | ${line}`);
+    });
+    response.appendResponseLine('```');
+    response.appendResponseLine(`Open in VS Code: ${snippet.editorUrl}`);
+    if (editorCommand) {
+      response.appendResponseLine(`Opened in editor: ${editorCommand}`);
+    }
+  },
+});
@@ -0,0 +1,108 @@
+import {zod} from '../third_party/index.js';
+
+import {
+  componentTargetSchema,
+  defineTool,
+  type SuspenseBoundaryInfo,
+} from './ToolDefinition.js';
+
+const STATE_LABELS: Record<SuspenseBoundaryInfo['state'], string> = {
+  resolved: 'showing its content',
+  fallback: 'showing its fallback',
+  dehydrated: 'waiting to hydrate server HTML',
+  pending: 'loading',
+  rejected: 'failed',
+  hidden: 'hidden',
+  visible: 'visible',
+};
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export const listSuspenseBoundaries = defineTool({
+  name: 'list_suspense_boundaries',
+  description:
+    'List React Suspense boundaries that are showing their fallback (or still waiting to hydrate) and what each one is waiting on: lazy components still loading or components that threw a pending promise. Also reports boundaries whose suspended update is kept off screen by a transition.',
+  schema: {
+    includeResolved: zod
+      .boolean()
+      .optional()
+      .describe('Also list boundaries that are showing their content (default: false).'),
+  },
+  handler: async (request, response, context) => {
+    const boundaries = await context.listSuspenseBoundaries(
+      request.params.includeResolved ?? false,
+    );
+    if (boundaries.length === 0) {
+      response.appendResponseLine(
+        request.params.includeResolved
+          ? 'No Suspense boundaries found.'
+          : 'No Suspense boundary is suspended.',
+      );
+      return;
+    }
+    for (const boundary of boundaries) {
+      const owner = boundary.owner
+        ? ` rendered by ${boundary.owner.name} (id ${boundary.owner.id})`
+        : '';
+      const forced = boundary.forced ? ' (forced by force_suspense)' : '';
+      response.appendResponseLine(
+        `Suspense (id ${boundary.id})${owner}: ${STATE_LABELS[boundary.state]}${forced}`,
+      );
+      if (boundary.path) {
+        response.appendResponseLine(`  at ${boundary.path}`);
+      }
+      if (boundary.state === 'resolved' && boundary.waitingOn.length > 0) {
+        response.appendResponseLine(
+          '  An update inside it is suspended; the previous content stays on screen until it resolves.',
+        );
+      }
+      for (const cause of boundary.waitingOn) {
+        const id = cause.componentId ? ` (id ${cause.componentId})` : '';
+        const what =
+          cause.kind === 'lazy'
+            ? `lazy component rendered by ${cause.component}${id}`
+            : `promise thrown by ${cause.component}${id}`;
+        response.appendResponseLine(
+          `  waiting on ${what}, pending for ${formatSeconds(cause.pendingMs)}`,
+        );
+      }
+      if (boundary.state === 'fallback' && !boundary.forced && boundary.waitingOn.length === 0) {
+        response.appendResponseLine(
+          '  waiting on: not reported (only development and profiling builds of React report suspending components)',
+        );
+      }
+    }
+  },
+});
+
+export const forceSuspense = defineTool({
+  name: 'force_suspense',
+  description:
+    'Force the Suspense boundary at or above a component into its fallback, to check loading UIs without slowing the network, or release it again. Target the component (or the boundary id from list_suspense_boundaries) by id, or by a uid or backendDOMNodeId from take_snapshot. Requires a development build of React.',
+  schema: {
+    ...componentTargetSchema,
+    enabled: zod
+      .boolean()
+      .optional()
+      .describe('true (default) shows the fallback; false releases the boundary.'),
+  },
+  handler: async (request, response, context) => {
+    const {id, backendDOMNodeId, uid, enabled} = request.params;
+    const result = await context.overrideBoundary(
+      {id, backendDOMNodeId, uid},
+      'suspense',
+      enabled ?? true,
+    );
+    const {boundary} = result;
+    response.appendResponseLine(
+      result.forced
+        ? `${boundary.name} (id ${boundary.id}) is forced to show its fallback. Release it with force_suspense {"id": "${boundary.id}", "enabled": false}.`
+        : `${boundary.name} (id ${boundary.id}) is released and renders its content again.`,
+    );
+    if (!result.rerendered) {
+      response.appendResponseLine('No React commit was observed within 1s.');
+    }
+  },
+});
@@ -0,0 +1,85 @@
+import {zod} from '../third_party/index.js';
+
+import {defineTool, timeoutSchema} from './ToolDefinition.js';
+
+const timeoutNote = 'Times out after `timeout` ms (default: 10000) with an error saying what is still missing.';
+
+export const waitForComponent = defineTool({
+  name: 'wait_for_component',
+  description: `Wait until a component with the given name is mounted on the selected page, or until none is. Use after navigate_page or an interaction, since navigation only waits for domcontentloaded, before the app has rendered. ${timeoutNote}`,
+  schema: {
+    name: zod.string().describe('Exact component name, e.g. "Dashboard".'),
+    state: zod
+      .enum(['mounted', 'unmounted'])
+      .optional()
+      .describe('"mounted" (default) waits for one to appear, "unmounted" for all of them to go.'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {name, state = 'mounted', timeout} = request.params;
+    const result = await context.waitFor({kind: 'component', name, state}, {timeout});
+    if (state === 'unmounted') {
+      response.appendResponseLine(`No ${name} is mounted (waited ${result.elapsedMs}ms).`);
+      return;
+    }
+    response.appendResponseLine(`${name} is mounted (waited ${result.elapsedMs}ms):`);
+    for (const component of result.components ?? []) {
+      response.appendResponseLine(`- ${component.path} (id ${component.id})`);
+    }
+  },
+});
+
+export const waitForSuspense = defineTool({
+  name: 'wait_for_suspense',
+  description: `Wait until React has rendered and no Suspense boundary on the selected page shows its fallback or waits on a suspended update. Boundaries held by force_suspense are ignored. ${timeoutNote}`,
+  schema: {
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const result = await context.waitFor({kind: 'suspense'}, {timeout: request.params.timeout});
+    response.appendResponseLine(`No Suspense boundary is pending (waited ${result.elapsedMs}ms).`);
+  },
+});
+
+export const waitForIdle = defineTool({
+  name: 'wait_for_idle',
+  description: `Wait until React has rendered and then made no commit for quietMs, so effects, data fetching and follow-up renders have settled. ${timeoutNote}`,
+  schema: {
+    quietMs: zod
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('How long React must go without committing (default: 500). Must not exceed timeout.'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const quietMs = request.params.quietMs ?? 500;
+    const result = await context.waitFor(
+      {kind: 'idle', quietMs},
+      {timeout: request.params.timeout},
+    );
+    response.appendResponseLine(
+      `React made no commit for ${quietMs}ms (waited ${result.elapsedMs}ms).`,
+    );
+  },
+});
+
+export const waitForText = defineTool({
+  name: 'wait_for_text',
+  description: `Wait until text appears in the accessible name or value of an element on the selected page, e.g. a heading, button label or status message. Hidden elements do not count. ${timeoutNote}`,
+  schema: {
+    text: zod.string().min(1).describe('Text to wait for; matched case-sensitively as a substring.'),
+    ...timeoutSchema,
+  },
+  handler: async (request, response, context) => {
+    const {text, timeout} = request.params;
+    const result = await context.waitFor({kind: 'text', text}, {timeout});
+    response.appendResponseLine(`"${text}" appeared (waited ${result.elapsedMs}ms):`);
+    for (const match of result.matches ?? []) {
+      const backendId =
+        match.backendDOMNodeId !== undefined ? ` (backendDOMNodeId ${match.backendDOMNodeId})` : '';
+      response.appendResponseLine(`- ${match.role ?? 'node'} "${match.name ?? ''}"${backendId}`);
+    }
+  },
+});